@@ -1,21 +1,49 @@
 #!/usr/bin/env bun
-import { appendFileSync, copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import {
+  appendFileSync, copyFileSync, cpSync, existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, renameSync, rmSync,
+  unwatchFile, watchFile, writeFileSync,
+} from 'node:fs';
 import { tmpdir } from 'node:os';
-import { join, basename, dirname, extname } from 'node:path';
-import { get as httpGet, type IncomingMessage } from 'node:http';
-import { createServer as createNetServer } from 'node:net';
+import { join, basename, dirname, extname, resolve } from 'node:path';
+import { get as httpGet, createServer as createHttpServer, type IncomingMessage } from 'node:http';
+import { createServer as createNetServer, connect as netConnect } from 'node:net';
+import { createInterface } from 'node:readline';
 import { spawn, spawnSync, type ChildProcess, type ChildProcessByStdio } from 'node:child_process';
 import { fileURLToPath, pathToFileURL } from 'node:url';
 import { createRequire } from 'node:module';
-import { createHash } from 'node:crypto';
-import type { Readable } from 'node:stream';
+import { randomBytes } from 'node:crypto';
+import type { Duplex, Readable } from 'node:stream';
 import { select } from '@inquirer/prompts';
 import { findpath as nwFindpath } from 'nw';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
 import {
-  parseArgs, getTitle, getIconPath, hasTypeScriptSource, validateExistingTsConfig,
+  parseArgs, resolveMode, getTitle, getIconPath, hasTypeScriptSource, validateExistingTsConfig, toExecutableName,
+  getProjectHash, getProjectDataDir, resolveProfileDir, resolveAppLogOptions, resolveHarOptions, resolveCaptureWait, resolveCaptureSizes, resolveCaptureBaseline,
+  captureSizeFile, isStaleCaptureOutput, parseViteErrors, formatCaptureError, resolveStartupTimeout, diagnoseViteOutput, crashBackoffMs,
   VITE_CONFIGS, WINDOW_THIS_CONFIGS, REQUIRED_TSCONFIG_OPTIONS, REQUIRED_TSCONFIG_TYPES,
-  type WindowThisConfig,
+  DEFAULT_BUILD_DIR, DEFAULT_PACKAGE_DIR, DEFAULT_RUN_SCRIPT_DIR, PROTECTED_MANIFEST_KEYS, NW_CRASH_LIMIT, NW_STABLE_RUN_MS,
+  resolveWindowUrl, resolveWindowOpenOptions, getHostInputFiles, hostInputChangeReason,
+  snapshotRoleOf, describeSnapshotElement,
+  type WindowThisConfig, type WindowThisConfigExport, type WindowDefinition, type CaptureWait,
+  type CaptureBaseline, type WindowSize, type CaptureError, type AppLogOptions,
+  type HarOptions, type TrayDefinition,
 } from '../src/lib.ts';
+import { validateWindowThisConfig } from '../src/config.ts';
+import { buildAppLogWriterJs, buildLogPreloadJs, buildConsolePreloadJs, PRELOAD_FILE } from '../src/preload.ts';
+import { parseSteps, describeStep, DEFAULT_STEP_TIMEOUT_MS, type Step } from '../src/steps.ts';
+import { decodePng, encodePng } from '../src/png.ts';
+import { compareImages } from '../src/diff.ts';
+import { createConsolePrinter, isConsoleMessage } from '../src/console.ts';
+import { resolveMenu, resolveTrayMenu, type MenuPlan, type TrayPlan } from '../src/menu.ts';
+import { resolveShortcuts, type ShortcutPlan } from '../src/shortcuts.ts';
+import {
+  parseControlCommand, isControlMethod, isSessionState, rpcError, CONTROL_METHODS, SESSION_FILE, CONTROL_REQUEST_TIMEOUT_MS,
+  RPC_PARSE_ERROR, RPC_INVALID_REQUEST, RPC_METHOD_NOT_FOUND, RPC_NO_WINDOW,
+  type SessionState, type JsonRpcRequest, type JsonRpcResponse, type JsonRpcError,
+} from '../src/control.ts';
+import {
+  replSocketPath, isIncompleteInput, isReplResponse, hoistDeclarations, REPL_HISTORY_FILE, REPL_HISTORY_SIZE, type ReplRequest, type ReplResponse,
+} from '../src/repl.ts';
 
 const _require = createRequire(import.meta.url);
 
@@ -29,15 +57,21 @@ function resolveOwnPackageDir(packageName: string): string | null {
 }
 
 const args = parseArgs();
+const mode = resolveMode(args);
 const binDir = fileURLToPath(new URL('.', import.meta.url));
 const pkgJson = JSON.parse(readFileSync(join(binDir, '../package.json'), 'utf-8'));
 const DEFAULT_ICON_PATH = join(binDir, '../assets/default-icon.png');
+// Lines of Vite output and NW stderr kept for startup and crash diagnostics.
+const OUTPUT_TAIL_LINES = 40;
 const artifactsDir = args.artifacts ?? args.capture;
 const debugArtifacts = artifactsDir ? setupDebugArtifacts(artifactsDir) : null;
 
 interface DebugArtifacts {
   dir: string;
-  appLogPath: string;
+  appLog: AppLogOptions;
+  har: HarOptions;
+  // NW's last stderr lines before each window crash.
+  crashLog: string;
 }
 
 function setupDebugArtifacts(dir: string): DebugArtifacts {
@@ -45,8 +79,22 @@ function setupDebugArtifacts(dir: string): DebugArtifacts {
 
   const cliLogPath = join(dir, 'cli.log');
   const appLogPath = join(dir, 'app.log');
+  let appLog: AppLogOptions;
+  let har: HarOptions;
+  try {
+    appLog = resolveAppLogOptions(args, appLogPath);
+    har = resolveHarOptions(args, join(dir, 'network.har'));
+  } catch (error) {
+    console.error(`  ${(error as Error).message}`);
+    process.exit(1);
+  }
   writeFileSync(cliLogPath, '', 'utf-8');
   writeFileSync(appLogPath, '', 'utf-8');
+  // Rotated files from an earlier run would interleave with this one's.
+  for (let i = 1; existsSync(`${appLogPath}.${i}`); i++) rmSync(`${appLogPath}.${i}`, { force: true });
+  rmSync(har.path, { force: true });
+  const crashLog = join(dir, 'nw-crash.log');
+  rmSync(crashLog, { force: true });
 
   const stamp = () => new Date().toISOString();
   const asText = (chunk: unknown) => {
@@ -75,7 +123,7 @@ function setupDebugArtifacts(dir: string): DebugArtifacts {
   });
 
   process.stdout.write(`  debug artifacts -> ${dir}\n`);
-  return { dir, appLogPath };
+  return { dir, appLog, har, crashLog };
 }
 
 // ─── terminal status line ─────────────────────────────────────────────────────
@@ -87,6 +135,7 @@ const RESET    = IS_TTY ? '\x1b[0m'  : '';
 const CLR_LINE = IS_TTY ? '\r\x1b[2K' : '';
 
 let _statusLen = 0;
+let _statusLine = '';
 
 function setStatus(msg: string, done = false) {
   const symbol = done ? `${GREEN}✓${RESET}` : `${BLUE}●${RESET}`;
@@ -95,11 +144,29 @@ function setStatus(msg: string, done = false) {
     const pad = ' '.repeat(Math.max(0, _statusLen - line.length));
     process.stdout.write(`${CLR_LINE}${line}${pad}`);
     _statusLen = done ? 0 : line.length;
+    _statusLine = done ? '' : line;
     if (done) process.stdout.write('\n');
   } else if (done) {
     process.stdout.write(`  ✓ ${msg}\n`);
   }
 }
+
+// Drops an unfinished status line, e.g. before reporting why a step failed.
+function clearStatus() {
+  if (IS_TTY && _statusLen > 0) process.stdout.write(CLR_LINE);
+  _statusLen = 0;
+  _statusLine = '';
+}
+
+// Prints a full line while a status line may be showing: clears it, writes the text,
+// then redraws the status underneath so the two never share a row.
+function printAboveStatus(text: string) {
+  if (IS_TTY && _statusLen > 0) {
+    process.stdout.write(`${CLR_LINE}${text}\n${_statusLine}`);
+  } else {
+    process.stdout.write(`${text}\n`);
+  }
+}
 type ViteProcess = ChildProcessByStdio<null, Readable, Readable>;
 
 if (args.version) {
@@ -114,6 +181,20 @@ if (args.help) {
 
   Usage:
     bun run windowd [options]
+    bun run windowd build [outDir] [options]
+    bun run windowd package [outDir] [options]
+    bun run windowd run-script <file> [options]
+    bun run windowd ctl <command> [args]
+    bun run windowd repl
+
+  Commands:
+    dev            Run the app against the Vite dev server (default)
+    build [dir]    Build a static NW.js app folder (default: ${DEFAULT_BUILD_DIR})
+    package [dir]  Bundle the build with the NW.js runtime (default: ${DEFAULT_PACKAGE_DIR})
+    run-script <f> Run click/type/screenshot steps from <f>, output to --capture (default: ${DEFAULT_RUN_SCRIPT_DIR})
+    ctl <command>  Control the running session: reload, screenshot [file], eval <code>,
+                   devtools, resize <w> <h>, focus, close
+    repl           Evaluate JavaScript in the running session's page
 
   Options:
     --width  <n>   Window width  (default: 1280)
@@ -121,7 +202,27 @@ if (args.help) {
     --title  <s>   Window title  (default: auto-detected)
     --debug        Enable extra NW.js logging
     --capture <d>  Capture screenshot to <d>, then exit
+    --capture-wait <s>     Readiness: delay, selector, ready, network-idle (default: delay)
+    --capture-wait-for <q> Wait for CSS selector <q> before capturing
+    --capture-delay <ms>   Delay for the delay strategy (default: 2000)
+    --capture-timeout <ms> Give up waiting and capture anyway (default: 15000)
+    --capture-sizes <l>    Capture at each size in <l>, e.g. 800x600,1280x800
+    --fail-on-error        Exit 1 if the page or Vite reported errors during --capture
+    --capture-baseline <d> Compare the screenshot with <d>/screenshot.png, exit 1 on regression
+    --update-baseline      Overwrite the baseline with this capture
+    --baseline-threshold <n> Per-pixel color tolerance from 0 to 1 (default: 0.1)
+    --baseline-ignore <r>  Skip region x,y,width,height when comparing (repeatable)
     --artifacts <d> Write CLI + app debug logs to <d>
+    --log-format <f>       app.log format: text or json (NDJSON) (default: text)
+    --log-max-size <n>     Rotate app.log past this size, e.g. 512k, 8mb (default: 8mb)
+    --log-max-files <n>    Rotated app.log files to keep (default: 3)
+    --har-bodies <n>       Record request/response bodies in network.har, capped at <n> bytes each
+    --har-include-vite     Keep Vite's own HMR and module requests in network.har
+    --quiet-console        Don't print the app's console output in this terminal
+    --startup-timeout <ms> Give up if Vite isn't serving by then (default: 30000)
+    --mode <name>  Vite + windowd-config mode (default: development, builds: production)
+    --profile <p>  Browser profile name or dir (default: per-project "default")
+    --fresh-profile Use a throwaway browser profile for this run
     --init         Create/check tsconfig.json for Node + Vite types
     --version      Show version
     --help         Show this help
@@ -141,14 +242,69 @@ async function main() {
     process.exit(0);
   }
 
+  let startupTimeout: number;
+  try {
+    startupTimeout = resolveStartupTimeout(args);
+  } catch (error) {
+    console.error(`  ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  if (args.command === 'ctl') process.exit(await runCtl(cwd));
+  if (args.command === 'repl') process.exit(await runRepl(cwd));
+
   const hasViteConfig = VITE_CONFIGS.some(f => existsSync(join(cwd, f)));
   const hasIndexHtml  = existsSync(join(cwd, 'index.html'));
 
   if (!hasViteConfig && !hasIndexHtml) {
-    await handleNoProject(cwd);
+    if (args.command !== 'dev') {
+      console.error(`  no index.html or vite.config found in ${cwd}`);
+      process.exit(1);
+    }
+    await handleNoProject(cwd, startupTimeout);
     return;
   }
 
+  if (args.command === 'build') {
+    const windowThisConfig = await loadWindowThisConfig(cwd);
+    const title = args.title ?? getTitle(cwd);
+    await runBuild(cwd, resolve(cwd, args.positionals[0] ?? DEFAULT_BUILD_DIR), windowThisConfig, title);
+    process.exit(0);
+  }
+
+  if (args.command === 'package') {
+    await runPackage(cwd);
+    process.exit(0);
+  }
+
+  let steps: LabeledStep[] | undefined;
+  if (args.command === 'run-script') steps = await loadStepScript(cwd, args.positionals[0]);
+
+  if (args.logFormat && !debugArtifacts) {
+    console.error('  --log-format needs --artifacts <dir> or --capture <dir>');
+    process.exit(1);
+  }
+
+  if (args.failOnError && (!args.capture || args.command === 'run-script')) {
+    console.error('  --fail-on-error needs a --capture run');
+    process.exit(1);
+  }
+
+  let captureWait: CaptureWait | undefined;
+  let captureSizes: WindowSize[] | undefined;
+  let baseline: CaptureBaseline | undefined;
+  if (args.capture) {
+    try {
+      captureWait = resolveCaptureWait(args);
+      captureSizes = resolveCaptureSizes(args);
+      baseline = resolveCaptureBaseline(args);
+    } catch (error) {
+      console.error(`  ${(error as Error).message}`);
+      process.exit(1);
+    }
+    clearCaptureOutput(resolve(cwd, args.capture));
+  }
+
   setStatus('starting...');
 
   if (shouldAutoCreateTsConfig(cwd)) ensureTsConfig(cwd);
@@ -165,13 +321,23 @@ async function main() {
 
   setStatus('starting vite...');
 
+  let viteErrors: CaptureError[] = [];
+  let crashed = false;
   try {
-    const vite = await startVite(cwd, port, viteConfig.configPath, !!debugArtifacts);
+    const startServer = () => startVite(cwd, port, viteConfig.configPath, !!debugArtifacts, startupTimeout);
+    const vite = await startServer();
+    if (!vite) {
+      process.exitCode = 1;
+      return;
+    }
+    if (args.capture) viteErrors = collectViteErrors(vite.process);
+    // Capture runs are one-shot, so a crash is reported but not recovered from.
+    const supervisor = superviseVite(vite, port, !args.capture, startServer);
     const url = `http://127.0.0.1:${port}`;
 
     setStatus('opening window...');
 
-    await openWindow({
+    crashed = await openWindow({
       url,
       title,
       width:  args.width,
@@ -181,763 +347,3112 @@ async function main() {
       projectDir: cwd,
       windowThisConfig,
       capture: args.capture,
-      appLogPath: debugArtifacts?.appLogPath,
+      captureWait,
+      captureSizes,
+      steps,
+      appLog: debugArtifacts?.appLog,
+      har: debugArtifacts?.har,
+      crashLog: debugArtifacts?.crashLog,
       onReady: () => setStatus(`${title}    ${url}`, true),
     });
 
-    stopVite(vite);
+    supervisor.stop();
   } finally {
     removeAugmentedViteConfig(viteConfig);
   }
 
+  if (crashed) process.exit(1);
+  if (steps && args.capture) process.exit(reportStepResults(args.capture));
+  if (args.capture) {
+    const captureDir = resolve(cwd, args.capture);
+    let exitCode = reportCaptureErrors(captureDir, viteErrors, args.failOnError);
+    if (baseline) {
+      const files = captureSizes ? captureSizes.map(captureSizeFile) : ['screenshot.png'];
+      exitCode = Math.max(exitCode, compareWithBaseline(captureDir, resolve(cwd, baseline.dir), baseline, files));
+    }
+    process.exit(exitCode);
+  }
   process.exit(0);
 }
 
-// ─── vite ────────────────────────────────────────────────────────────────────
+// ─── run-script ──────────────────────────────────────────────────────────────
 
-async function startVite(cwd: string, port: number, configPath: string, streamOutput: boolean): Promise<ViteProcess> {
-  const vite = spawn(
-    'bun',
-    ['x', 'vite', '--host', '127.0.0.1', '--port', String(port), '--strictPort', '--config', configPath],
-    { cwd, stdio: ['ignore', 'pipe', 'pipe'] }
-  );
-  vite.stdout.on('data', (chunk: Buffer | string) => {
-    if (streamOutput) process.stdout.write(chunk);
-  });
-  vite.stderr.on('data', (chunk: Buffer | string) => {
-    process.stderr.write(chunk);
-  });
+type LabeledStep = Step & { label: string };
+
+async function loadStepScript(cwd: string, file: string | undefined): Promise<LabeledStep[]> {
+  if (!file) {
+    console.error('  usage: windowd run-script <steps.json|steps.ts> [--capture <dir>]');
+    process.exit(1);
+  }
+
+  const scriptPath = resolve(cwd, file);
+  try {
+    const loaded = extname(scriptPath) === '.json'
+      ? JSON.parse(readFileSync(scriptPath, 'utf-8'))
+      : await import(pathToFileURL(scriptPath).href).then(mod => mod.default ?? mod);
+    return parseSteps(loaded).map((step, i) => ({ ...step, label: describeStep(step, i) }));
+  } catch (error) {
+    console.error(`  failed to load step script ${file}: ${(error as Error).message ?? String(error)}`);
+    process.exit(1);
+  }
+}
 
-  await waitForServer(`http://127.0.0.1:${port}`);
-  return vite;
+function clearCaptureOutput(captureDir: string) {
+  if (!existsSync(captureDir)) return;
+  for (const file of readdirSync(captureDir)) {
+    if (isStaleCaptureOutput(file)) rmSync(join(captureDir, file), { force: true });
+  }
 }
 
-function stopVite(vite: ViteProcess) {
-  if (vite.killed) return;
+// Prints the outcome of a run-script session and returns the process exit code.
+function reportStepResults(captureDir: string): number {
+  const logPath = join(captureDir, 'steps.json');
+  let log: { status: string; steps: unknown[]; failedStep?: { label: string; error: string } };
   try {
-    vite.kill('SIGTERM');
+    log = JSON.parse(readFileSync(logPath, 'utf-8'));
   } catch {
-    // Process may have already exited.
+    console.error(`  step script did not complete, no step log at ${logPath}`);
+    return 1;
   }
-}
 
-// ─── nw.js ───────────────────────────────────────────────────────────────────
+  if (log.status !== 'passed' && log.failedStep) {
+    console.error(`  ${log.failedStep.label} failed: ${log.failedStep.error}`);
+    console.error(`  step log -> ${logPath}`);
+    return 1;
+  }
 
-interface WindowOptions {
-  url:    string;
-  title:  string;
-  width:  number;
-  height: number;
-  debug:  boolean;
-  nwBin:  string;
-  projectDir: string;
-  windowThisConfig: WindowThisConfig;
-  capture?: string;
-  appLogPath?: string;
-  onReady?: () => void;
+  console.log(`  ${log.steps.length} steps passed, step log -> ${logPath}`);
+  return 0;
 }
 
-function cleanupTempDir(dir: string, label: string) {
+// ─── ctl ─────────────────────────────────────────────────────────────────────
+
+// Sends one command to the windowd session running in cwd and prints its result.
+async function runCtl(cwd: string): Promise<number> {
+  let call: ReturnType<typeof parseControlCommand>;
   try {
-    rmSync(dir, { recursive: true, force: true });
+    call = parseControlCommand(args.positionals);
   } catch (error) {
-    const code = (error as NodeJS.ErrnoException | undefined)?.code;
-    if (code === 'EBUSY' || code === 'EPERM' || code === 'ENOTEMPTY') return;
-    console.warn(`  warning: failed to remove ${label} temp dir: ${String(error)}`);
+    console.error(`  ${(error as Error).message}`);
+    return 1;
   }
-}
+  if (call.method === 'screenshot') call.params.path = resolve(cwd, String(call.params.path));
 
-async function openWindow({ url, title, width, height, debug, nwBin, projectDir, windowThisConfig, capture, appLogPath, onReady }: WindowOptions) {
-  const closeSignal = await createCloseSignalServer();
-  const { hostDir, userDataDir } = createNwHostApp({
-    url,
-    title,
-    width,
-    height,
-    debug,
-    nwBin,
-    projectDir,
-    closeSignalUrl: closeSignal.url,
-    windowThisConfig,
-    capture,
-    appLogPath,
-  });
-  const nw = spawn(nwBin, [`--user-data-dir=${userDataDir}`, hostDir], {
-    stdio: ['ignore', 'pipe', 'pipe'],
-    env: process.env,
-  });
-  nw.stdout?.on('data', (chunk: Buffer | string) => process.stdout.write(chunk));
-  nw.stderr?.on('data', (chunk: Buffer | string) => process.stderr.write(chunk));
-  onReady?.();
+  const session = readSessionState(cwd);
+  if (!session) {
+    console.error(`  no running windowd session found in ${cwd} (start one with windowd, then retry)`);
+    return 1;
+  }
 
+  let response: JsonRpcResponse;
   try {
-    await Promise.race([waitForExit(nw, 'nw'), closeSignal.closed]);
-  } finally {
-    closeSignal.stop();
-    if (!nw.killed) {
-      try {
-        nw.kill('SIGTERM');
-      } catch {
-        // ignore cleanup errors
-      }
-    }
-    cleanupTempDir(hostDir, 'host');
-    cleanupTempDir(userDataDir, 'profile');
+    response = await sendControlRequest(session, { jsonrpc: '2.0', id: 1, method: call.method, params: call.params });
+  } catch (error) {
+    console.error(`  could not reach the windowd session on port ${session.port}: ${(error as Error).message}`);
+    return 1;
   }
-}
 
-// ─── no-project prompt ───────────────────────────────────────────────────────
+  if (response.error) {
+    console.error(`  ${call.method} failed: ${response.error.message}`);
+    return 1;
+  }
+  const result = response.result as Record<string, unknown> | null;
+  if (call.method === 'screenshot' && result) console.log(`  screenshot -> ${result.path}`);
+  else if (call.method === 'eval' && result) console.log(typeof result.value === 'string' ? result.value : JSON.stringify(result.value, null, 2));
+  return 0;
+}
 
-async function handleNoProject(cwd: string) {
-  console.log(`  no index.html or vite.config found in ${cwd}\n`);
+// The session advertised in SESSION_FILE, or null when there is none or its process is gone.
+function readSessionState(cwd: string): SessionState | null {
+  let state: unknown;
+  try {
+    state = JSON.parse(readFileSync(join(cwd, SESSION_FILE), 'utf-8'));
+  } catch {
+    return null;
+  }
+  if (!isSessionState(state)) return null;
+  try {
+    process.kill(state.pid, 0);
+  } catch {
+    return null;
+  }
+  return state;
+}
 
-  const choice = await select({
-    message: 'What would you like to do?',
-    choices: [
-      { name: 'Scaffold a React + TypeScript project here', value: 'react-ts'  },
-      { name: 'Scaffold a vanilla HTML + TypeScript project', value: 'vanilla' },
-      { name: 'Exit',                                         value: 'exit'    },
-    ],
+function sendControlRequest(session: SessionState, request: JsonRpcRequest): Promise<JsonRpcResponse> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(`ws://127.0.0.1:${session.port}/ctl?token=${session.token}`);
+    const timer = setTimeout(() => {
+      socket.terminate();
+      reject(new Error('timed out waiting for an answer'));
+    }, CONTROL_REQUEST_TIMEOUT_MS + 5000);
+    socket.once('open', () => socket.send(JSON.stringify(request)));
+    socket.once('message', (data: RawData) => {
+      clearTimeout(timer);
+      socket.close();
+      try {
+        resolve(JSON.parse(String(data)));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    socket.once('error', (error: Error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
   });
-
-  if (choice === 'exit') process.exit(0);
-  await scaffold(cwd, choice as 'react-ts' | 'vanilla');
 }
 
-async function scaffold(cwd: string, template: 'react-ts' | 'vanilla') {
-  console.log(`\n  scaffolding ${template} project in ${cwd}...`);
+// ─── repl ────────────────────────────────────────────────────────────────────
 
-  const result = spawnSync(
-    'bun',
-    ['create', 'vite@latest', '.', '--template', template],
-    { cwd, stdio: 'inherit' }
-  );
+// Interactive prompt that evaluates each entry in the page of the session running in cwd.
+async function runRepl(cwd: string): Promise<number> {
+  const session = readSessionState(cwd);
+  if (!session?.repl) {
+    console.error(`  no running windowd session found in ${cwd} (start one with windowd, then retry)`);
+    return 1;
+  }
+  const socketPath = session.repl;
 
-  if (result.status !== 0) {
-    console.error('  scaffold failed');
-    process.exit(1);
+  let connection: ReplConnection;
+  try {
+    connection = await connectRepl(socketPath);
+  } catch (error) {
+    console.error(`  could not reach the windowd session: ${(error as Error).message}`);
+    return 1;
   }
 
-  console.log('\n  installing dependencies...');
-  spawnSync('bun', ['install'], { cwd, stdio: 'inherit' });
+  console.log(`  connected to ${session.url} (pid ${session.pid}); Node's require is available, .exit to leave`);
+  const colors = Boolean(process.stdout.isTTY);
+  const historyPath = join(cwd, REPL_HISTORY_FILE);
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    terminal: Boolean(process.stdin.isTTY),
+    prompt: 'windowd> ',
+    history: readReplHistory(historyPath),
+    historySize: REPL_HISTORY_SIZE,
+  });
+  rl.on('history', (history: string[]) => {
+    try {
+      mkdirSync(dirname(historyPath), { recursive: true });
+      writeFileSync(historyPath, history.join('\n'), 'utf-8');
+    } catch { /* history is a convenience - ignore write failures */ }
+  });
 
-  ensureTsConfig(cwd);
-  ensureNwTypes(cwd);
+  let evaluating = false;
+  const evaluate = async (code: string) => {
+    evaluating = true;
+    try {
+      // A relaunched window listens again on the same socket.
+      if (connection.closed) {
+        if (!readSessionState(cwd)) throw new Error('the windowd session has ended');
+        connection = await connectRepl(socketPath);
+      }
+      // Top-level declarations have to outlive this entry, as they do in Node's REPL.
+      const response = await connection.send(hoistDeclarations(code), colors);
+      if (response.error !== undefined) console.error(response.error);
+      else console.log(response.output);
+    } catch (error) {
+      console.error(`  ${(error as Error).message}`);
+    } finally {
+      evaluating = false;
+    }
+  };
 
-  // Now run with the freshly scaffolded project
-  const nwBin = await ensureNwBinary();
-  const port = await getEphemeralPort();
-  const viteConfig = createAugmentedViteConfig(cwd);
-  const windowThisConfig = await loadWindowThisConfig(cwd);
-  const title = basename(cwd);
-  setStatus('starting vite...');
-  try {
-    const vite = await startVite(cwd, port, viteConfig.configPath, !!debugArtifacts);
-    const url = `http://127.0.0.1:${port}`;
+  let closed = false;
+  let buffer = '';
+  // One entry at a time, so piped input gets its answers in order.
+  let queue = Promise.resolve();
+  const prompt = (continuation: boolean) => {
+    if (closed) return;
+    rl.setPrompt(continuation ? '... ' : 'windowd> ');
+    rl.prompt();
+  };
 
-    setStatus('opening window...');
-    await openWindow({
-      url,
-      title,
-      width: args.width,
-      height: args.height,
-      debug: args.debug,
-      nwBin,
-      projectDir: cwd,
-      windowThisConfig,
-      appLogPath: debugArtifacts?.appLogPath,
-      onReady: () => setStatus(`${title}    ${url}`, true),
-    });
+  let exiting = false;
+  rl.on('line', (line: string) => {
+    if (exiting) return;
+    if (!buffer && line.trim() === '.exit') {
+      // Queued, so piped input still gets the answers to the entries before it.
+      exiting = true;
+      queue = queue.then(() => rl.close());
+      return;
+    }
+    buffer = buffer ? `${buffer}\n${line}` : line;
+    if (!buffer.trim()) {
+      buffer = '';
+      prompt(false);
+      return;
+    }
+    if (isIncompleteInput(buffer)) {
+      prompt(true);
+      return;
+    }
+    const code = buffer;
+    buffer = '';
+    queue = queue.then(() => evaluate(code)).then(() => prompt(false));
+  });
+  // Ctrl+C gives up on an entry still waiting for its answer, drops a half-typed entry,
+  // and on an empty prompt it leaves.
+  rl.on('SIGINT', () => {
+    if (evaluating) {
+      connection.abandon();
+      return;
+    }
+    if (!buffer && !rl.line) {
+      rl.close();
+      return;
+    }
+    buffer = '';
+    rl.write(null, { ctrl: true, name: 'u' });
+    process.stdout.write('\n');
+    prompt(false);
+  });
 
-    stopVite(vite);
-  } finally {
-    removeAugmentedViteConfig(viteConfig);
-  }
+  prompt(false);
+  await new Promise<void>(resolve => rl.once('close', () => resolve()));
+  closed = true;
+  await queue;
+  connection.close();
+  return 0;
+}
 
-  process.exit(0);
+function readReplHistory(path: string): string[] {
+  try {
+    return readFileSync(path, 'utf-8').split('\n').filter(Boolean).slice(0, REPL_HISTORY_SIZE);
+  } catch {
+    return [];
+  }
 }
 
-// ─── helpers ─────────────────────────────────────────────────────────────────
+interface ReplConnection {
+  readonly closed: boolean;
+  send: (code: string, colors: boolean) => Promise<ReplResponse>;
+  // Rejects the requests still waiting for an answer; the page may still finish them.
+  abandon: () => void;
+  close: () => void;
+}
 
-function waitForServer(url: string, maxAttempts = 40): Promise<void> {
+function connectRepl(socketPath: string): Promise<ReplConnection> {
   return new Promise((resolve, reject) => {
-    let attempts = 0;
-
-    function attempt() {
-      attempts++;
-      const req = httpGet(url, (res: IncomingMessage) => {
-        res.resume();
-        if (res.statusCode! < 500) {
-          resolve();
-        } else if (attempts < maxAttempts) {
-          setTimeout(attempt, 150);
-        } else {
-          reject(new Error(`Vite not ready after ${maxAttempts} attempts`));
+    const socket = netConnect(socketPath);
+    let nextId = 0;
+    let buffered = '';
+    let closed = false;
+    const pending = new Map<number, { resolve: (response: ReplResponse) => void; reject: (error: Error) => void }>();
+
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      buffered += chunk;
+      let newline: number;
+      while ((newline = buffered.indexOf('\n')) !== -1) {
+        const line = buffered.slice(0, newline);
+        buffered = buffered.slice(newline + 1);
+        let response: unknown;
+        try {
+          response = JSON.parse(line);
+        } catch {
+          continue;
         }
+        if (!isReplResponse(response)) continue;
+        pending.get(response.id)?.resolve(response);
+        pending.delete(response.id);
+      }
+    });
+    socket.on('close', () => {
+      closed = true;
+      for (const entry of pending.values()) entry.reject(new Error('the window closed before answering'));
+      pending.clear();
+    });
+    socket.once('error', reject);
+    socket.once('connect', () => {
+      socket.off('error', reject);
+      socket.on('error', () => {});
+      resolve({
+        get closed() { return closed; },
+        send: (code, colors) => new Promise((resolve, reject) => {
+          const request: ReplRequest = { id: ++nextId, code, colors };
+          pending.set(request.id, { resolve, reject });
+          socket.write(JSON.stringify(request) + '\n');
+        }),
+        abandon: () => {
+          for (const entry of pending.values()) entry.reject(new Error('interrupted, the page may still finish this entry'));
+          pending.clear();
+        },
+        close: () => socket.end(),
       });
-      req.on('error', () => {
-        if (attempts < maxAttempts) setTimeout(attempt, 150);
-        else reject(new Error(`Vite at ${url} never responded`));
-      });
-      req.setTimeout(1000, () => req.destroy());
-    }
-
-    attempt();
+    });
   });
 }
 
-function getEphemeralPort(host = '127.0.0.1'): Promise<number> {
-  return new Promise((resolve, reject) => {
-    const server = createNetServer();
+// ─── capture errors ──────────────────────────────────────────────────────────
 
-    server.once('error', reject);
-    server.once('listening', () => {
-      const addr = server.address();
-      if (!addr || typeof addr === 'string') {
-        server.close(() => reject(new Error('Could not determine a free port')));
-        return;
-      }
+// Collects compile errors the Vite dev server logs while a capture runs.
+function collectViteErrors(vite: ViteProcess): CaptureError[] {
+  const errors: CaptureError[] = [];
+  const onOutput = (chunk: Buffer | string) => {
+    for (const error of parseViteErrors(String(chunk))) {
+      if (!errors.some(seen => seen.message === error.message)) errors.push(error);
+    }
+  };
+  vite.stdout.on('data', onOutput);
+  vite.stderr.on('data', onOutput);
+  return errors;
+}
 
-      const port = addr.port;
-      server.close(() => resolve(port));
-    });
+// Folds Vite's errors into result.json, prints a summary and returns the exit code for --fail-on-error.
+function reportCaptureErrors(captureDir: string, viteErrors: CaptureError[], failOnError: boolean): number {
+  const resultPath = join(captureDir, 'result.json');
+  let result: { errors?: CaptureError[] };
+  try {
+    result = JSON.parse(readFileSync(resultPath, 'utf-8'));
+  } catch {
+    console.error(`  capture did not complete, no result at ${resultPath}`);
+    return failOnError ? 1 : 0;
+  }
 
-    server.listen(0, host);
-  });
+  const errors = [...(result.errors ?? []), ...viteErrors];
+  if (viteErrors.length > 0) writeFileSync(resultPath, JSON.stringify({ ...result, errors }, null, 2));
+  if (errors.length === 0) return 0;
+
+  const log = failOnError ? console.error : console.warn;
+  log(`  ${errors.length} error${errors.length === 1 ? '' : 's'} during capture:`);
+  for (const error of errors.slice(0, 10)) log(`    ${formatCaptureError(error)}`);
+  if (errors.length > 10) log(`    ...and ${errors.length - 10} more`);
+  log(`  details -> ${resultPath}`);
+  return failOnError ? 1 : 0;
 }
 
-interface AugmentedViteConfig {
-  tempDir: string;
-  configPath: string;
+// ─── baseline ────────────────────────────────────────────────────────────────
+
+// Compares each captured screenshot with its baseline, records the stats in result.json and returns the exit code.
+function compareWithBaseline(captureDir: string, baselineDir: string, baseline: CaptureBaseline, files: string[]): number {
+  let failed = 0;
+  for (const file of files) {
+    if (!compareScreenshot(captureDir, baselineDir, baseline, file)) failed++;
+  }
+  return failed > 0 ? 1 : 0;
 }
 
-function createAugmentedViteConfig(cwd: string): AugmentedViteConfig {
-  const tempDir = mkdtempSync(join(tmpdir(), 'windowd-vite-'));
-  const configPath = join(tempDir, 'vite.config.mjs');
-  // Stable per-project cache dir in OS temp - keeps .vite out of the user's project entirely
-  const projectHash = createHash('sha256').update(cwd).digest('hex').slice(0, 8);
-  const viteCacheDir = join(tmpdir(), 'windowd-vite-cache', projectHash);
-  const userConfigPath = getUserViteConfigPath(cwd);
-  const userConfigUrl = userConfigPath ? pathToFileURL(userConfigPath).href : null;
+function compareScreenshot(captureDir: string, baselineDir: string, baseline: CaptureBaseline, file: string): boolean {
+  const screenshotPath = join(captureDir, file);
+  const baselinePath = join(baselineDir, file);
+  if (!existsSync(screenshotPath)) {
+    console.error(`  capture did not produce ${screenshotPath}, nothing to compare`);
+    return false;
+  }
 
-  // Auto-inject @vitejs/plugin-react for JSX/TSX projects that have no vite config of their own
-  const reactPluginDir = resolveOwnPackageDir('@vitejs/plugin-react');
-  const reactPluginPath = reactPluginDir ? join(reactPluginDir, 'dist', 'index.mjs') : null;
-  const hasTsxOrJsx = ['main.tsx', 'main.jsx', 'src/main.tsx', 'src/main.jsx', 'index.tsx', 'index.jsx']
-    .some(f => existsSync(join(cwd, f)));
-  const shouldInjectReactPlugin = !userConfigPath && hasTsxOrJsx && !!reactPluginPath && existsSync(reactPluginPath);
+  if (baseline.update) {
+    mkdirSync(baselineDir, { recursive: true });
+    copyFileSync(screenshotPath, baselinePath);
+    recordBaselineResult(captureDir, file, { baselinePath, updated: true });
+    console.log(`  baseline updated -> ${baselinePath}`);
+    return true;
+  }
 
-  // Build fallback resolve.alias entries for packages windowd ships but the user's project lacks.
-  // User's own node_modules always take priority - we only alias what's missing.
-  // Use module resolution (not a guessed path) so this works whether deps are nested or hoisted.
-  const fallbackAliases: Record<string, string> = {};
-  for (const dep of ['react', 'react-dom']) {
-    if (!existsSync(join(cwd, 'node_modules', dep))) {
-      const resolved = resolveOwnPackageDir(dep);
-      if (resolved) fallbackAliases[dep] = resolved;
-    }
+  if (!existsSync(baselinePath)) {
+    console.error(`  no baseline at ${baselinePath}, run again with --update-baseline to create it`);
+    return false;
   }
 
-  // Transpile the plugin TS to JS and write it alongside the temp config so Vite
-  // can load it via Node's ESM loader (which doesn't handle .ts natively).
-  const pluginTsPath = join(binDir, '..', 'src', 'plugins', 'node-builtins.ts');
-  const pluginTs = readFileSync(pluginTsPath, 'utf-8');
-  const transpiler = new Bun.Transpiler({ loader: 'ts' });
-  const pluginJs = transpiler.transformSync(pluginTs);
-  writeFileSync(join(tempDir, 'node-builtins.mjs'), pluginJs, 'utf-8');
-
-  const reactPluginImportLine = shouldInjectReactPlugin && reactPluginPath
-    ? `import react from ${JSON.stringify(pathToFileURL(reactPluginPath).href)};`
-    : '';
-
-  const configContents = `
-import path from "node:path";
-import { windowThisNodeBuiltins } from "./node-builtins.mjs";
-${reactPluginImportLine}
-const projectDir = ${JSON.stringify(cwd)};
-const defaultFsAllow = [projectDir, path.resolve(projectDir, "..")];
-const userConfigUrl = ${JSON.stringify(userConfigUrl)};
-let userConfig = {};
-
-if (userConfigUrl) {
-  const loaded = (await import(userConfigUrl)).default;
-  if (typeof loaded === 'function') {
-    userConfig = await loaded({ command: 'serve', mode: 'development' });
-  } else if (loaded) {
-    userConfig = loaded;
+  let result;
+  try {
+    result = compareImages(decodePng(readFileSync(screenshotPath)), decodePng(readFileSync(baselinePath)), baseline);
+  } catch (error) {
+    console.error(`  baseline comparison failed for ${file}: ${(error as Error).message}`);
+    return false;
   }
-}
 
-const basePlugins = [windowThisNodeBuiltins()${shouldInjectReactPlugin ? ', react()' : ''}];
-const plugins = Array.isArray(userConfig.plugins)
-  ? [...basePlugins, ...userConfig.plugins]
-  : basePlugins;
+  const diffPath = join(captureDir, file.replace(/^screenshot/, 'diff'));
+  writeFileSync(diffPath, encodePng(result.diff));
+
+  const passed = result.diffPixels === 0;
+  recordBaselineResult(captureDir, file, {
+    baselinePath,
+    diffPath,
+    passed,
+    sizeMismatch: result.sizeMismatch,
+    width: result.width,
+    height: result.height,
+    diffPixels: result.diffPixels,
+    comparedPixels: result.comparedPixels,
+    ignoredPixels: result.ignoredPixels,
+    mismatchRatio: result.mismatchRatio,
+    threshold: baseline.threshold,
+    ignoreRegions: baseline.ignoreRegions,
+  });
 
-const userServer = userConfig.server ?? {};
-const userFs = userServer.fs ?? {};
-const userAllow = Array.isArray(userFs.allow) ? userFs.allow : [];
-const allow = [...new Set([...defaultFsAllow, ...userAllow])];
+  if (passed) {
+    console.log(`  ${file} matches baseline ${baselinePath}`);
+    return true;
+  }
 
-const fallbackAliases = ${JSON.stringify(fallbackAliases)};
-const userResolve = userConfig.resolve ?? {};
-const userAlias = userResolve.alias;
-const mergedAlias = Array.isArray(userAlias)
-  ? [...Object.entries(fallbackAliases).map(([find, replacement]) => ({ find, replacement })), ...userAlias]
-  : { ...fallbackAliases, ...(userAlias ?? {}) };
+  const percent = (result.mismatchRatio * 100).toFixed(2);
+  const size = result.sizeMismatch ? ' (image size changed)' : '';
+  console.error(`  ${file} differs from baseline: ${result.diffPixels} pixels (${percent}%)${size}`);
+  console.error(`  diff -> ${diffPath}`);
+  return false;
+}
 
-export default {
-  cacheDir: ${JSON.stringify(viteCacheDir)},
-  ...userConfig,
-  plugins,
-  resolve: {
-    ...userResolve,
-    alias: mergedAlias,
-  },
-  server: {
-    ...userServer,
-    fs: {
-      ...userFs,
-      allow,
-    },
-  },
-};
-`;
+// Multi-size captures keep the stats on the matching `screenshots` entry, single captures at the top level.
+function recordBaselineResult(captureDir: string, file: string, stats: Record<string, unknown>) {
+  const resultPath = join(captureDir, 'result.json');
+  let result: { screenshots?: { file: string; baseline?: unknown }[]; baseline?: unknown } = {};
+  try {
+    result = JSON.parse(readFileSync(resultPath, 'utf-8'));
+  } catch { /* capture wrote no result; keep just the baseline stats */ }
 
-  writeFileSync(configPath, configContents, 'utf-8');
-  return { tempDir, configPath };
+  const entry = result.screenshots?.find(shot => shot.file === file);
+  if (entry) entry.baseline = stats;
+  else result.baseline = stats;
+  writeFileSync(resultPath, JSON.stringify(result, null, 2));
 }
 
-function removeAugmentedViteConfig(config: AugmentedViteConfig) {
-  rmSync(config.tempDir, { recursive: true, force: true });
-}
+// ─── build ───────────────────────────────────────────────────────────────────
 
-function getUserViteConfigPath(cwd: string): string | undefined {
-  for (const file of VITE_CONFIGS) {
-    const abs = join(cwd, file);
-    if (existsSync(abs)) return abs;
+async function runBuild(cwd: string, outDir: string, windowThisConfig: WindowThisConfig, title: string) {
+  // Bundled first so a broken script fails the build before Vite runs.
+  let nodeMainJs: string | undefined;
+  if (windowThisConfig.nw?.nodeMain) {
+    try {
+      nodeMainJs = (await bundleUserNodeMain(resolve(cwd, windowThisConfig.nw.nodeMain))).js;
+    } catch (error) {
+      console.error(`  ${(error as Error).message}`);
+      process.exit(1);
+    }
   }
-  return undefined;
-}
 
-async function loadWindowThisConfig(cwd: string): Promise<WindowThisConfig> {
-  const configPath = getWindowThisConfigPath(cwd);
-  if (!configPath) return {};
+  const viteConfig = createAugmentedViteConfig(cwd, 'build');
+
+  setStatus('building with vite...');
 
   try {
-    const loaded = await import(pathToFileURL(configPath).href);
-    const config = (loaded?.default ?? loaded) as WindowThisConfig | undefined;
-    if (!config || typeof config !== 'object') {
-      console.warn('  windowd config loaded but was not an object, ignoring');
-      return {};
-    }
-    return config;
-  } catch (error) {
-    console.warn(`  failed to load ${basename(configPath)}: ${String(error)}`);
-    return {};
+    await buildVite(cwd, outDir, viteConfig.configPath);
+  } finally {
+    removeAugmentedViteConfig(viteConfig);
   }
+
+  // The built index.html is loaded straight from disk, so there is no dev server to signal.
+  writeNwHostApp(outDir, {
+    main: 'index.html',
+    title,
+    width:  args.width,
+    height: args.height,
+    debug:  args.debug,
+    projectDir: cwd,
+    controlUrl: null,
+    replSocket: null,
+    windowThisConfig,
+    nodeMainJs,
+  });
+
+  setStatus(`built ${title} -> ${outDir}`, true);
 }
 
-function getWindowThisConfigPath(cwd: string): string | undefined {
-  for (const file of WINDOW_THIS_CONFIGS) {
-    const abs = join(cwd, file);
-    if (existsSync(abs)) return abs;
+// ─── package ─────────────────────────────────────────────────────────────────
+
+async function runPackage(cwd: string) {
+  if (process.platform !== 'linux') {
+    console.error('  windowd package currently produces Linux archives only');
+    process.exit(1);
   }
-  return undefined;
-}
 
-function applyUserManifestOverrides(
-  manifest: Record<string, unknown>,
-  userManifest: Record<string, unknown> | undefined,
-) {
-  if (!userManifest) return;
+  const windowThisConfig = await loadWindowThisConfig(cwd);
+  const packageConfig = windowThisConfig.package ?? {};
+  const title = args.title ?? getTitle(cwd);
+  const outDir = resolve(cwd, args.positionals[0] ?? packageConfig.outDir ?? DEFAULT_PACKAGE_DIR);
+  const executableName = packageConfig.executableName ?? toExecutableName(title);
+  const appName = `${executableName}-linux-${process.arch}`;
+  const appDir = join(outDir, appName);
 
-  const protectedKeys = new Set(['main', 'node-main', 'name']);
-  for (const [key, value] of Object.entries(userManifest)) {
-    if (protectedKeys.has(key)) {
-      console.warn(`  ignoring windowd config override for protected manifest key: ${key}`);
-      continue;
+  // Uses the cached runtime when present, so packaging works offline after the first run.
+  const nwBin = await ensureNwBinary();
+
+  setStatus('copying NW.js runtime...');
+  rmSync(appDir, { recursive: true, force: true });
+  mkdirSync(outDir, { recursive: true });
+  cpSync(dirname(nwBin), appDir, { recursive: true });
+  renameSync(join(appDir, basename(nwBin)), join(appDir, executableName));
+
+  // NW.js on Linux picks up the app from a package.nw folder next to the executable.
+  await runBuild(cwd, join(appDir, 'package.nw'), windowThisConfig, title);
+
+  if (packageConfig.archive !== false) {
+    setStatus('writing archive...');
+    const archivePath = join(outDir, `${appName}.tar.gz`);
+    rmSync(archivePath, { force: true });
+    const tar = spawnSync('tar', ['-czf', archivePath, '-C', outDir, appName], { stdio: 'inherit' });
+    if (tar.status !== 0) {
+      console.error('  failed to write archive with tar');
+      process.exit(1);
     }
-    manifest[key] = value;
+    setStatus(`packaged ${title} -> ${archivePath}`, true);
+  } else {
+    setStatus(`packaged ${title} -> ${appDir}`, true);
   }
 }
 
-function ensureTsConfig(cwd: string) {
-  const tsconfigPath = join(cwd, 'tsconfig.json');
-  if (existsSync(tsconfigPath)) return;
-
-  const tsconfig = {
-    compilerOptions: {
-      ...REQUIRED_TSCONFIG_OPTIONS,
-      types: REQUIRED_TSCONFIG_TYPES,
-    },
-  };
+// ─── vite ────────────────────────────────────────────────────────────────────
 
-  writeFileSync(tsconfigPath, `${JSON.stringify(tsconfig, null, 2)}\n`, 'utf-8');
-  console.log('  created tsconfig.json for Node.js + Vite types');
+async function buildVite(cwd: string, outDir: string, configPath: string) {
+  const vite = spawn(
+    'bun',
+    ['x', 'vite', 'build', '--outDir', outDir, '--emptyOutDir', '--mode', mode, '--config', configPath],
+    { cwd, stdio: ['ignore', 'inherit', 'inherit'] }
+  );
+  await waitForExit(vite, 'vite build');
 }
 
-function shouldAutoCreateTsConfig(cwd: string): boolean {
-  if (existsSync(join(cwd, 'tsconfig.json'))) return true;
-
-  // Only auto-create tsconfig when the project appears to actually use TypeScript.
-  return hasTypeScriptSource(cwd, 0);
+interface ViteServer {
+  process: ViteProcess;
+  // The last OUTPUT_TAIL_LINES lines Vite printed.
+  output: string[];
 }
 
-function runInit(cwd: string) {
-  ensureNwTypes(cwd);
+// Starts the dev server and waits until it answers. On failure prints why, with the tail of
+// Vite's output and a hint where one applies, and returns null.
+async function startVite(
+  cwd: string, port: number, configPath: string, streamOutput: boolean, startupTimeout: number,
+): Promise<ViteServer | null> {
+  const vite = spawn(
+    'bun',
+    ['x', 'vite', '--host', '127.0.0.1', '--port', String(port), '--strictPort', '--mode', mode, '--config', configPath],
+    { cwd, stdio: ['ignore', 'pipe', 'pipe'] }
+  );
+  const output: string[] = [];
+  // Held back until Vite answers, so a failed start shows its output once, in the report.
+  let held: [NodeJS.WriteStream, Buffer | string][] | null = [];
+  const forward = (stream: NodeJS.WriteStream, chunk: Buffer | string) => {
+    if (held) held.push([stream, chunk]);
+    else stream.write(chunk);
+  };
+  vite.stdout.on('data', (chunk: Buffer | string) => {
+    appendOutputTail(output, chunk);
+    if (streamOutput) forward(process.stdout, chunk);
+  });
+  vite.stderr.on('data', (chunk: Buffer | string) => {
+    appendOutputTail(output, chunk);
+    forward(process.stderr, chunk);
+  });
 
-  const tsconfigPath = join(cwd, 'tsconfig.json');
-  if (!existsSync(tsconfigPath)) {
-    ensureTsConfig(cwd);
-    return;
-  }
+  let exitReason: string | null = null;
+  vite.once('error', (error) => { exitReason = `could not run bun x vite: ${error.message}`; });
+  vite.once('exit', (code, signal) => { exitReason = `vite exited with code ${code ?? 'null'} signal ${signal ?? 'null'}`; });
 
-  const validation = validateExistingTsConfig(tsconfigPath);
-  if (!validation.ok) {
-    console.warn(`  found tsconfig.json, but could not parse it: ${validation.error}`);
-    console.warn('  please ensure compilerOptions include Node + Vite settings');
-    return;
+  try {
+    await waitForServer(`http://127.0.0.1:${port}`, startupTimeout, () => exitReason);
+  } catch (error) {
+    stopVite(vite);
+    clearStatus();
+    reportViteFailure(`vite failed to start: ${(error as Error).message}`, output, true);
+    return null;
   }
+  for (const [stream, chunk] of held) stream.write(chunk);
+  held = null;
+  return { process: vite, output };
+}
 
-  if (validation.missing.length === 0) {
-    console.log('  tsconfig.json already includes required Node.js + Vite settings');
-    return;
+// showOutput is for output the terminal has not seen yet; a running Vite streams its own.
+function reportViteFailure(headline: string, output: string[], showOutput: boolean) {
+  const lines = [`  ${headline}`];
+  if (showOutput && output.length > 0) {
+    lines.push('  last vite output:', ...output.map(line => `    ${line.replace(/\x1b\[[0-9;]*m/g, '')}`));
   }
+  const hint = diagnoseViteOutput(output.join('\n'));
+  if (hint) lines.push(`  hint: ${hint}`);
+  printAboveStatus(lines.join('\n'));
+}
 
-  console.warn('  tsconfig.json exists but is missing recommended settings:');
-  for (const item of validation.missing) {
-    console.warn(`   - ${item}`);
+function stopVite(vite: ViteProcess) {
+  if (vite.killed) return;
+  try {
+    vite.kill('SIGTERM');
+  } catch {
+    // Process may have already exited.
   }
-  console.warn('  run with your editor open and merge the missing settings manually');
 }
 
-function ensureNwTypes(cwd: string) {
-  const packageJsonPath = join(cwd, 'package.json');
-  if (!existsSync(packageJsonPath)) return;
+interface ViteSupervisor {
+  stop: () => void;
+}
 
-  const nwTypesPath = join(cwd, 'node_modules', '@types', 'nw.js', 'index.d.ts');
-  if (existsSync(nwTypesPath)) return;
+/**
+ * Watches the dev server for the rest of the session. If Vite dies, windowd reports why and
+ * serves a recovery page on the same port; Vite's client reloads into it once its ping
+ * succeeds, and the page's restart button starts a fresh Vite.
+ */
+function superviseVite(first: ViteServer, port: number, recover: boolean, restart: () => Promise<ViteServer | null>): ViteSupervisor {
+  let current: ViteServer | null = first;
+  let recovery: RecoveryServer | null = null;
+  let stopped = false;
+
+  const watch = (server: ViteServer) => {
+    server.process.once('exit', (code, signal) => {
+      if (stopped || current !== server) return;
+      current = null;
+      reportViteFailure(`vite exited unexpectedly (code ${code ?? 'null'} signal ${signal ?? 'null'})`, server.output, false);
+      if (recover) void showRecovery(server.output);
+    });
+  };
 
-  console.log('  installing @types/nw.js for TypeScript auto-complete...');
-  const result = spawnSync('bun', ['add', '-d', '@types/nw.js'], {
-    cwd,
-    stdio: 'inherit',
-  });
+  const showRecovery = async (output: string[]) => {
+    try {
+      recovery = await createRecoveryServer(port, output, onRestart);
+      printAboveStatus('  the window shows a recovery page; use its button to restart vite');
+    } catch (error) {
+      printAboveStatus(`  could not serve the recovery page: ${(error as Error).message}`);
+    }
+  };
 
-  if (result.status !== 0) {
-    console.warn('  could not install @types/nw.js automatically, continuing anyway');
-  }
-}
+  const onRestart = async () => {
+    if (stopped || current) return;
+    recovery?.stop();
+    recovery = null;
+    printAboveStatus('  restarting vite...');
+    const next = await restart();
+    if (stopped) {
+      if (next) stopVite(next.process);
+      return;
+    }
+    if (!next) {
+      await showRecovery([]);
+      return;
+    }
+    current = next;
+    watch(next);
+    printAboveStatus('  vite restarted');
+  };
 
-interface NwHostOptions extends WindowOptions {
-  closeSignalUrl: string;
+  watch(first);
+  return {
+    stop: () => {
+      stopped = true;
+      recovery?.stop();
+      if (current) stopVite(current.process);
+    },
+  };
 }
 
-interface NwHostAppPaths {
-  hostDir: string;
-  userDataDir: string;
+interface RecoveryServer {
+  stop: () => void;
 }
 
-function createNwHostApp({
-  url,
-  title,
-  width,
-  height,
-  debug,
-  projectDir,
-  closeSignalUrl,
-  windowThisConfig,
-  capture,
-  appLogPath,
-}: NwHostOptions): NwHostAppPaths {
-  const hostDir = mkdtempSync(join(tmpdir(), 'windowd-nw-'));
-  const userDataDir = mkdtempSync(join(tmpdir(), 'windowd-nw-profile-'));
-  const startUrl = new URL(url);
-  startUrl.searchParams.set('windowThisProjectDir', projectDir);
-  const nodeMainPath = join(hostDir, 'windowd-node-main.js');
+// Stands in for Vite on its port while it is down. Every page gets the recovery page, and
+// WebSocket upgrades for the `vite-ping` protocol are accepted so Vite's reconnect loop in
+// the open window sees the port answer and reloads.
+async function createRecoveryServer(port: number, output: string[], onRestart: () => void): Promise<RecoveryServer> {
+  const page = buildRecoveryPageHtml(output);
+  const server = createHttpServer((req, res) => {
+    if (req.method === 'POST' && req.url === '/__windowd/restart') {
+      // Restarting closes this server, so let the response go out first.
+      res.on('finish', onRestart);
+      res.writeHead(202).end();
+      return;
+    }
+    res.writeHead(503, { 'content-type': 'text/html; charset=utf-8', 'cache-control': 'no-store' });
+    res.end(page);
+  });
+  const pings = new WebSocketServer({
+    noServer: true,
+    handleProtocols: (protocols) => protocols.has('vite-ping') ? 'vite-ping' : false,
+  });
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (!req.headers['sec-websocket-protocol']?.split(',').some(protocol => protocol.trim() === 'vite-ping')) {
+      socket.destroy();
+      return;
+    }
+    // The handshake answering is all Vite's ping waits for.
+    pings.handleUpgrade(req, socket, head, ws => ws.close());
+  });
 
-  const windowConfig: Record<string, unknown> = {
-    title,
-    width,
-    height,
-    ...windowThisConfig.nw?.window,
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve());
+  });
+
+  return {
+    stop: () => {
+      try {
+        pings.close();
+        server.closeAllConnections();
+        server.close();
+      } catch {
+        // ignore
+      }
+    },
   };
+}
 
-  // Auto-detect icon unless the user already set one via windowd-config.
-  // We resolve the absolute dest path so we can pass it to node-main for win.setIcon(),
-  // which is more reliable than the manifest window.icon field on Windows.
-  let resolvedIconDest: string | null = null;
-  if (!windowConfig.icon) {
-    const iconSrc = getIconPath(projectDir) ?? DEFAULT_ICON_PATH;
-    const iconExt = extname(iconSrc);
-    const iconDest = join(hostDir, `windowd-icon${iconExt}`);
+function buildRecoveryPageHtml(output: string[]): string {
+  const escape = (text: string) => text.replace(/[&<>"]/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[ch]!);
+  const log = output.map(line => escape(line.replace(/\x1b\[[0-9;]*m/g, ''))).join('\n');
+  const hint = diagnoseViteOutput(output.join('\n'));
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Vite stopped</title>
+<style>
+  body { font: 14px system-ui, sans-serif; margin: 40px; color: #222; background: #fafafa; }
+  pre { background: #1e1e1e; color: #ddd; padding: 12px; overflow: auto; max-height: 50vh; }
+  button { font: inherit; padding: 6px 16px; }
+</style>
+</head>
+<body>
+<h1>The Vite dev server stopped</h1>
+<p>windowd is still running. Fix the problem, then restart Vite to reload the app.</p>
+${hint ? `<p><strong>Hint:</strong> ${escape(hint)}</p>` : ''}
+${log ? `<pre>${log}</pre>` : '<p>See the windowd terminal for details.</p>'}
+<button id="restart">Restart Vite</button>
+<p id="status"></p>
+<script>
+  const status = document.getElementById('status');
+  const button = document.getElementById('restart');
+  // The port goes quiet while Vite restarts; whatever answers next (the app, or this page
+  // after a failed restart) is worth reloading into.
+  const waitForVite = async () => {
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      try {
+        await fetch(location.href, { cache: 'no-store' });
+        return location.reload();
+      } catch {}
+    }
+  };
+  button.addEventListener('click', async () => {
+    button.disabled = true;
+    status.textContent = 'Restarting Vite...';
     try {
-      copyFileSync(iconSrc, iconDest);
-      windowConfig.icon = `windowd-icon${iconExt}`;
-      resolvedIconDest = iconDest;
-    } catch { /* icon is cosmetic - ignore copy failures */ }
-  }
+      await fetch('/__windowd/restart', { method: 'POST' });
+    } catch {}
+    waitForVite();
+  });
+</script>
+</body>
+</html>
+`;
+}
 
-  const manifest: Record<string, unknown> = {
-    name: 'windowd-host',
-    main: startUrl.toString(),
-    'single-instance': false,
-    'node-main': 'windowd-node-main.js',
-    'node-remote': windowThisConfig.nw?.nodeRemote ?? ['<all_urls>'],
-    window: windowConfig,
+// ─── nw.js ───────────────────────────────────────────────────────────────────
+
+interface WindowOptions {
+  url:    string;
+  title:  string;
+  width:  number;
+  height: number;
+  debug:  boolean;
+  nwBin:  string;
+  projectDir: string;
+  windowThisConfig: WindowThisConfig;
+  capture?: string;
+  captureWait?: CaptureWait;
+  captureSizes?: WindowSize[];
+  steps?: LabeledStep[];
+  appLog?: AppLogOptions;
+  har?: HarOptions;
+  // Where the preload posts renderer console output; unset for builds and --quiet-console.
+  consoleUrl?: string;
+  crashLog?: string;
+  onReady?: () => void;
+}
+
+function cleanupTempDir(dir: string, label: string) {
+  try {
+    rmSync(dir, { recursive: true, force: true });
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException | undefined)?.code;
+    if (code === 'EBUSY' || code === 'EPERM' || code === 'ENOTEMPTY') return;
+    console.warn(`  warning: failed to remove ${label} temp dir: ${String(error)}`);
+  }
+}
+
+// Runs the window until it is closed. Resolves true when it crashed and was not relaunched.
+async function openWindow(options: WindowOptions): Promise<boolean> {
+  const { nwBin, projectDir, capture, crashLog, onReady } = options;
+  let { title, windowThisConfig } = options;
+  // Resolved on every launch, so a window restarted for a changed nw.profile opens that profile.
+  // Persistent profiles survive across runs; a throwaway one is a temp dir shared by the whole
+  // session, so app storage still survives window restarts.
+  let tempProfileDir: string | null = null;
+  const resolveUserDataDir = () => {
+    const profileDir = resolveProfileDir(projectDir, args, windowThisConfig.nw?.profile);
+    if (!profileDir) return tempProfileDir ??= mkdtempSync(join(tmpdir(), 'windowd-nw-profile-'));
+    mkdirSync(profileDir, { recursive: true });
+    return profileDir;
+  };
+  // Created once so a restarted window keeps printing through the same dedupe state.
+  const consoleServer = args.quietConsole ? null : await createConsoleServer();
+  const control = await createControlServer(projectDir, options.url);
+  let crashes = 0;
+  // Crashes of windows that died soon after launch, in a row; a window that stayed up resets it.
+  let quickCrashes = 0;
+
+  try {
+    while (true) {
+      const closed = control.waitForClose();
+      const nodeMain = await loadUserNodeMain(projectDir, windowThisConfig);
+      const hostDir = createNwHostApp({
+        ...options,
+        title,
+        windowThisConfig,
+        controlUrl: control.hostUrl,
+        replSocket: control.replSocket,
+        consoleUrl: consoleServer?.url,
+        nodeMainJs: nodeMain.js ?? undefined,
+      });
+
+      const nw = spawn(nwBin, [`--user-data-dir=${resolveUserDataDir()}`, hostDir], {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: process.env,
+      });
+      const stderrTail: string[] = [];
+      nw.stdout?.on('data', (chunk: Buffer | string) => process.stdout.write(chunk));
+      nw.stderr?.on('data', (chunk: Buffer | string) => {
+        appendOutputTail(stderrTail, chunk);
+        process.stderr.write(chunk);
+      });
+      const launchedAt = Date.now();
+      onReady?.();
+
+      // Capture runs are one-shot, so there is nothing to restart.
+      const watcher = capture ? null : watchHostInputs(projectDir, title, nodeMain.inputs);
+      // A non-zero exit without the window reporting a close is a crash; a restart kills NW on purpose
+      // after the race, so later exits don't count.
+      let crash: string | null = null;
+      const exited = waitForExit(nw, 'nw').catch((error: Error) => { crash ??= error.message; });
+      let restartReason: string | null = null;
+
+      try {
+        while (true) {
+          const reason = await Promise.race([
+            exited.then(() => null),
+            closed.then(() => null),
+            ...(watcher ? [watcher.changed] : []),
+          ]);
+          if (!reason || !watcher) break;
+
+          const next = await readWindowThisConfig(projectDir);
+          if (next.problems.length === 0) {
+            windowThisConfig = next.config;
+            title = args.title ?? getTitle(projectDir);
+            restartReason = reason;
+            break;
+          }
+          reportConfigProblems(next);
+          console.error('  keeping the current window until the config is fixed');
+          watcher.rearm();
+        }
+      } finally {
+        // Freeze the crash verdict before stopNw's SIGTERM produces an exit of its own.
+        crash ??= '';
+        watcher?.stop();
+        await stopNw(nw);
+        cleanupTempDir(hostDir, 'host');
+      }
+
+      if (crash) {
+        crashes++;
+        quickCrashes = Date.now() - launchedAt < NW_STABLE_RUN_MS ? quickCrashes + 1 : 1;
+        reportNwCrash(crash, crashes, stderrTail, crashLog);
+        // Capture runs are one-shot; a crash just means no result.
+        if (capture) return true;
+        if (quickCrashes >= NW_CRASH_LIMIT) {
+          console.error(`  window crashed ${quickCrashes} times in a row, giving up`);
+          return true;
+        }
+        const delay = crashBackoffMs(quickCrashes);
+        setStatus(`relaunching window in ${Math.round(delay / 1000)}s...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+      if (!restartReason) return false;
+      setStatus(`restarting window (${restartReason} changed)...`);
+    }
+  } finally {
+    control.stop();
+    consoleServer?.stop();
+    if (tempProfileDir) cleanupTempDir(tempProfileDir, 'profile');
+  }
+}
+
+// Prints why the window died and appends NW's last stderr lines to nw-crash.log when
+// debug artifacts are on.
+function reportNwCrash(reason: string, crashes: number, stderrTail: string[], crashLog?: string) {
+  printAboveStatus(`  window crashed: ${reason} (crash ${crashes} this session)`);
+  if (!crashLog) return;
+  const lines = [`--- crash ${crashes} at ${new Date().toISOString()}: ${reason}`, ...stderrTail, ''];
+  try {
+    appendFileSync(crashLog, lines.join('\n'), 'utf-8');
+    printAboveStatus(`  last nw stderr -> ${crashLog}`);
+  } catch (error) {
+    console.warn(`  could not write ${crashLog}: ${String(error)}`);
+  }
+}
+
+async function stopNw(nw: ChildProcess) {
+  if (nw.exitCode !== null || nw.signalCode !== null) return;
+  const exited = new Promise<void>((resolve) => nw.once('exit', () => resolve()));
+  try {
+    nw.kill('SIGTERM');
+  } catch {
+    // ignore cleanup errors
+    return;
+  }
+  // Give NW a moment to release the profile directory before the next launch reuses it.
+  await Promise.race([exited, new Promise<void>((resolve) => setTimeout(resolve, 3000))]);
+}
+
+interface HostInputWatcher {
+  // Resolves with the name of the input that changed.
+  changed: Promise<string>;
+  // Starts listening for the next change after one was handled without a restart.
+  rearm: () => void;
+  stop: () => void;
+}
+
+// Watches the files that feed createNwHostApp: windowd-config, the resolved icon and the
+// package.json title fields. Vite handles everything else with HMR.
+function watchHostInputs(projectDir: string, title: string, nodeMainInputs: string[]): HostInputWatcher {
+  const watched = [...getHostInputFiles(projectDir), ...nodeMainInputs];
+
+  let resolveChanged!: (reason: string) => void;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const arm = () => new Promise<string>((resolve) => { resolveChanged = resolve; });
+
+  const watcher: HostInputWatcher = {
+    changed: arm(),
+    rearm: () => { watcher.changed = arm(); },
+    stop: () => {
+      if (timer) clearTimeout(timer);
+      for (const file of watched) unwatchFile(file);
+    },
+  };
+
+  for (const file of watched) {
+    watchFile(file, { interval: 300 }, (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs) return;
+      const reason = hostInputChangeReason(file, projectDir, title, args.title);
+      if (!reason) return;
+      // Editors often write in several steps; wait for the file to settle.
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => resolveChanged(reason), 200);
+    });
+  }
+
+  return watcher;
+}
+
+interface UserNodeMain {
+  js: string;
+  // Project files that went into the bundle; editing one restarts the window.
+  inputs: string[];
+}
+
+/**
+ * Bundles an nw.nodeMain script into one CommonJS file node-main can require. It is bundled
+ * rather than only transpiled because it runs from the temp host dir, or from a build that
+ * ships without node_modules, so its imports have to be resolved against the project now.
+ */
+async function bundleUserNodeMain(entry: string): Promise<UserNodeMain> {
+  if (!existsSync(entry)) throw new Error(`nw.nodeMain: ${entry} does not exist`);
+  const result = await Bun.build({ entrypoints: [entry], target: 'node', format: 'cjs', metafile: true, throw: false });
+  if (!result.success) {
+    const logs = result.logs.map(({ message, position }) => {
+      const at = position ? `${position.file}:${position.line}:${position.column}: ` : '';
+      return `    ${at}${message}`;
+    }).join('\n');
+    throw new Error(`nw.nodeMain: could not bundle ${entry}\n${logs}`);
+  }
+  const inputs = Object.keys(result.metafile?.inputs ?? {})
+    .map(input => resolve(input))
+    .filter(input => !input.split(/[\\/]/).includes('node_modules'));
+  return { js: await result.outputs[0].text(), inputs: inputs.length > 0 ? inputs : [entry] };
+}
+
+// nw.nodeMain for a dev window. A script that doesn't bundle is reported and left out, and
+// its entry stays watched so the fix brings it back.
+async function loadUserNodeMain(projectDir: string, config: WindowThisConfig): Promise<{ js: string | null; inputs: string[] }> {
+  if (!config.nw?.nodeMain) return { js: null, inputs: [] };
+  const entry = resolve(projectDir, config.nw.nodeMain);
+  try {
+    return await bundleUserNodeMain(entry);
+  } catch (error) {
+    printAboveStatus(`  ${(error as Error).message}`);
+    printAboveStatus('  opening the window without it until the script is fixed');
+    return { js: null, inputs: [entry] };
+  }
+}
+
+// ─── no-project prompt ───────────────────────────────────────────────────────
+
+async function handleNoProject(cwd: string, startupTimeout: number) {
+  console.log(`  no index.html or vite.config found in ${cwd}\n`);
+
+  const choice = await select({
+    message: 'What would you like to do?',
+    choices: [
+      { name: 'Scaffold a React + TypeScript project here', value: 'react-ts'  },
+      { name: 'Scaffold a vanilla HTML + TypeScript project', value: 'vanilla' },
+      { name: 'Exit',                                         value: 'exit'    },
+    ],
+  });
+
+  if (choice === 'exit') process.exit(0);
+  await scaffold(cwd, choice as 'react-ts' | 'vanilla', startupTimeout);
+}
+
+async function scaffold(cwd: string, template: 'react-ts' | 'vanilla', startupTimeout: number) {
+  console.log(`\n  scaffolding ${template} project in ${cwd}...`);
+
+  const result = spawnSync(
+    'bun',
+    ['create', 'vite@latest', '.', '--template', template],
+    { cwd, stdio: 'inherit' }
+  );
+
+  if (result.status !== 0) {
+    console.error('  scaffold failed');
+    process.exit(1);
+  }
+
+  console.log('\n  installing dependencies...');
+  spawnSync('bun', ['install'], { cwd, stdio: 'inherit' });
+
+  ensureTsConfig(cwd);
+  ensureNwTypes(cwd);
+
+  // Now run with the freshly scaffolded project
+  const nwBin = await ensureNwBinary();
+  const port = await getEphemeralPort();
+  const viteConfig = createAugmentedViteConfig(cwd);
+  const windowThisConfig = await loadWindowThisConfig(cwd);
+  const title = basename(cwd);
+  let crashed = false;
+  setStatus('starting vite...');
+  try {
+    const startServer = () => startVite(cwd, port, viteConfig.configPath, !!debugArtifacts, startupTimeout);
+    const vite = await startServer();
+    if (!vite) {
+      process.exitCode = 1;
+      return;
+    }
+    const supervisor = superviseVite(vite, port, true, startServer);
+    const url = `http://127.0.0.1:${port}`;
+
+    setStatus('opening window...');
+    crashed = await openWindow({
+      url,
+      title,
+      width: args.width,
+      height: args.height,
+      debug: args.debug,
+      nwBin,
+      projectDir: cwd,
+      windowThisConfig,
+      appLog: debugArtifacts?.appLog,
+      har: debugArtifacts?.har,
+      crashLog: debugArtifacts?.crashLog,
+      onReady: () => setStatus(`${title}    ${url}`, true),
+    });
+
+    supervisor.stop();
+  } finally {
+    removeAugmentedViteConfig(viteConfig);
+  }
+
+  process.exit(crashed ? 1 : 0);
+}
+
+// ─── helpers ─────────────────────────────────────────────────────────────────
+
+// Keeps the last OUTPUT_TAIL_LINES non-empty lines of a child process's output.
+function appendOutputTail(lines: string[], chunk: Buffer | string) {
+  lines.push(...String(chunk).split(/\r?\n/).filter(line => line.trim()));
+  lines.splice(0, lines.length - OUTPUT_TAIL_LINES);
+}
+
+// Polls until the server answers. Gives up after timeoutMs, or as soon as exited() reports
+// that the process behind it is gone.
+function waitForServer(url: string, timeoutMs: number, exited: () => string | null): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    function retry(reason: string) {
+      const exitReason = exited();
+      if (exitReason) reject(new Error(exitReason));
+      else if (Date.now() >= deadline) reject(new Error(`${reason} after ${timeoutMs}ms (raise it with --startup-timeout)`));
+      else setTimeout(attempt, 150);
+    }
+
+    function attempt() {
+      const req = httpGet(url, (res: IncomingMessage) => {
+        res.resume();
+        if (res.statusCode! < 500) resolve();
+        else retry(`still answering ${res.statusCode}`);
+      });
+      req.on('error', () => retry(`no response from ${url}`));
+      req.setTimeout(1000, () => req.destroy());
+    }
+
+    attempt();
+  });
+}
+
+function getEphemeralPort(host = '127.0.0.1'): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createNetServer();
+
+    server.once('error', reject);
+    server.once('listening', () => {
+      const addr = server.address();
+      if (!addr || typeof addr === 'string') {
+        server.close(() => reject(new Error('Could not determine a free port')));
+        return;
+      }
+
+      const port = addr.port;
+      server.close(() => resolve(port));
+    });
+
+    server.listen(0, host);
+  });
+}
+
+interface AugmentedViteConfig {
+  tempDir: string;
+  configPath: string;
+}
+
+function createAugmentedViteConfig(cwd: string, command: 'serve' | 'build' = 'serve'): AugmentedViteConfig {
+  const tempDir = mkdtempSync(join(tmpdir(), 'windowd-vite-'));
+  const configPath = join(tempDir, 'vite.config.mjs');
+  // Stable per-project cache dir in OS temp - keeps .vite out of the user's project entirely
+  const viteCacheDir = join(tmpdir(), 'windowd-vite-cache', getProjectHash(cwd));
+  const userConfigPath = getUserViteConfigPath(cwd);
+  const userConfigUrl = userConfigPath ? pathToFileURL(userConfigPath).href : null;
+  const configEnv = { command, mode };
+
+  // Auto-inject @vitejs/plugin-react for JSX/TSX projects that have no vite config of their own
+  const reactPluginDir = resolveOwnPackageDir('@vitejs/plugin-react');
+  const reactPluginPath = reactPluginDir ? join(reactPluginDir, 'dist', 'index.mjs') : null;
+  const hasTsxOrJsx = ['main.tsx', 'main.jsx', 'src/main.tsx', 'src/main.jsx', 'index.tsx', 'index.jsx']
+    .some(f => existsSync(join(cwd, f)));
+  const shouldInjectReactPlugin = !userConfigPath && hasTsxOrJsx && !!reactPluginPath && existsSync(reactPluginPath);
+
+  // Build fallback resolve.alias entries for packages windowd ships but the user's project lacks.
+  // User's own node_modules always take priority - we only alias what's missing.
+  // Use module resolution (not a guessed path) so this works whether deps are nested or hoisted.
+  const fallbackAliases: Record<string, string> = {};
+  for (const dep of ['react', 'react-dom']) {
+    if (!existsSync(join(cwd, 'node_modules', dep))) {
+      const resolved = resolveOwnPackageDir(dep);
+      if (resolved) fallbackAliases[dep] = resolved;
+    }
+  }
+
+  // Transpile the plugin TS to JS and write it alongside the temp config so Vite
+  // can load it via Node's ESM loader (which doesn't handle .ts natively).
+  const pluginTsPath = join(binDir, '..', 'src', 'plugins', 'node-builtins.ts');
+  const pluginTs = readFileSync(pluginTsPath, 'utf-8');
+  const transpiler = new Bun.Transpiler({ loader: 'ts' });
+  const pluginJs = transpiler.transformSync(pluginTs);
+  writeFileSync(join(tempDir, 'node-builtins.mjs'), pluginJs, 'utf-8');
+
+  const reactPluginImportLine = shouldInjectReactPlugin && reactPluginPath
+    ? `import react from ${JSON.stringify(pathToFileURL(reactPluginPath).href)};`
+    : '';
+
+  const configContents = `
+import path from "node:path";
+import { windowThisNodeBuiltins } from "./node-builtins.mjs";
+${reactPluginImportLine}
+const projectDir = ${JSON.stringify(cwd)};
+const defaultFsAllow = [projectDir, path.resolve(projectDir, "..")];
+const userConfigUrl = ${JSON.stringify(userConfigUrl)};
+let userConfig = {};
+
+if (userConfigUrl) {
+  const loaded = (await import(userConfigUrl)).default;
+  if (typeof loaded === 'function') {
+    userConfig = await loaded(${JSON.stringify(configEnv)});
+  } else if (loaded) {
+    userConfig = loaded;
+  }
+}
+
+const basePlugins = [windowThisNodeBuiltins()${shouldInjectReactPlugin ? ', react()' : ''}];
+const plugins = Array.isArray(userConfig.plugins)
+  ? [...basePlugins, ...userConfig.plugins]
+  : basePlugins;
+
+const userServer = userConfig.server ?? {};
+const userFs = userServer.fs ?? {};
+const userAllow = Array.isArray(userFs.allow) ? userFs.allow : [];
+const allow = [...new Set([...defaultFsAllow, ...userAllow])];
+
+const fallbackAliases = ${JSON.stringify(fallbackAliases)};
+const userResolve = userConfig.resolve ?? {};
+const userAlias = userResolve.alias;
+const mergedAlias = Array.isArray(userAlias)
+  ? [...Object.entries(fallbackAliases).map(([find, replacement]) => ({ find, replacement })), ...userAlias]
+  : { ...fallbackAliases, ...(userAlias ?? {}) };
+
+export default {
+  cacheDir: ${JSON.stringify(viteCacheDir)},
+  ...userConfig,
+  plugins,
+  resolve: {
+    ...userResolve,
+    alias: mergedAlias,
+  },
+  server: {
+    ...userServer,
+    fs: {
+      ...userFs,
+      allow,
+    },
+  },
+};
+`;
+
+  writeFileSync(configPath, configContents, 'utf-8');
+  return { tempDir, configPath };
+}
+
+function removeAugmentedViteConfig(config: AugmentedViteConfig) {
+  rmSync(config.tempDir, { recursive: true, force: true });
+}
+
+function getUserViteConfigPath(cwd: string): string | undefined {
+  for (const file of VITE_CONFIGS) {
+    const abs = join(cwd, file);
+    if (existsSync(abs)) return abs;
+  }
+  return undefined;
+}
+
+interface LoadedWindowThisConfig {
+  configPath?: string;
+  config: WindowThisConfig;
+  problems: string[];
+}
+
+async function readWindowThisConfig(cwd: string): Promise<LoadedWindowThisConfig> {
+  const configPath = getWindowThisConfigPath(cwd);
+  if (!configPath) return { config: {}, problems: [] };
+
+  // Drop any cached copy so edits are picked up when the window restarts.
+  delete _require.cache[configPath];
+
+  let config: WindowThisConfig | undefined;
+  try {
+    const loaded = await import(pathToFileURL(configPath).href);
+    const exported = (loaded?.default ?? loaded) as WindowThisConfigExport | undefined;
+    config = typeof exported === 'function'
+      ? await exported({ command: args.command, mode, projectDir: cwd, args })
+      : exported;
+  } catch (error) {
+    console.warn(`  failed to load ${basename(configPath)}: ${String(error)}`);
+    return { configPath, config: {}, problems: [] };
+  }
+
+  if (!config || typeof config !== 'object') {
+    console.warn('  windowd config loaded but was not an object, ignoring');
+    return { configPath, config: {}, problems: [] };
+  }
+
+  return { configPath, config, problems: validateWindowThisConfig(config) };
+}
+
+function reportConfigProblems({ configPath, problems }: LoadedWindowThisConfig) {
+  console.error(`  ${basename(configPath ?? 'windowd-config')} is invalid:`);
+  for (const problem of problems) {
+    console.error(`   - ${problem}`);
+  }
+}
+
+async function loadWindowThisConfig(cwd: string): Promise<WindowThisConfig> {
+  const loaded = await readWindowThisConfig(cwd);
+  if (loaded.problems.length > 0) {
+    reportConfigProblems(loaded);
+    process.exit(1);
+  }
+  return loaded.config;
+}
+
+function getWindowThisConfigPath(cwd: string): string | undefined {
+  for (const file of WINDOW_THIS_CONFIGS) {
+    const abs = join(cwd, file);
+    if (existsSync(abs)) return abs;
+  }
+  return undefined;
+}
+
+function applyUserManifestOverrides(
+  manifest: Record<string, unknown>,
+  userManifest: Record<string, unknown> | undefined,
+) {
+  if (!userManifest) return;
+
+  for (const [key, value] of Object.entries(userManifest)) {
+    if (PROTECTED_MANIFEST_KEYS.has(key)) {
+      console.warn(`  ignoring windowd config override for protected manifest key: ${key}`);
+      continue;
+    }
+    manifest[key] = value;
+  }
+}
+
+function ensureTsConfig(cwd: string) {
+  const tsconfigPath = join(cwd, 'tsconfig.json');
+  if (existsSync(tsconfigPath)) return;
+
+  const tsconfig = {
+    compilerOptions: {
+      ...REQUIRED_TSCONFIG_OPTIONS,
+      types: REQUIRED_TSCONFIG_TYPES,
+    },
+  };
+
+  writeFileSync(tsconfigPath, `${JSON.stringify(tsconfig, null, 2)}\n`, 'utf-8');
+  console.log('  created tsconfig.json for Node.js + Vite types');
+}
+
+function shouldAutoCreateTsConfig(cwd: string): boolean {
+  if (existsSync(join(cwd, 'tsconfig.json'))) return true;
+
+  // Only auto-create tsconfig when the project appears to actually use TypeScript.
+  return hasTypeScriptSource(cwd, 0);
+}
+
+function runInit(cwd: string) {
+  ensureNwTypes(cwd);
+
+  const tsconfigPath = join(cwd, 'tsconfig.json');
+  if (!existsSync(tsconfigPath)) {
+    ensureTsConfig(cwd);
+    return;
+  }
+
+  const validation = validateExistingTsConfig(tsconfigPath);
+  if (!validation.ok) {
+    console.warn(`  found tsconfig.json, but could not parse it: ${validation.error}`);
+    console.warn('  please ensure compilerOptions include Node + Vite settings');
+    return;
+  }
+
+  if (validation.missing.length === 0) {
+    console.log('  tsconfig.json already includes required Node.js + Vite settings');
+    return;
+  }
+
+  console.warn('  tsconfig.json exists but is missing recommended settings:');
+  for (const item of validation.missing) {
+    console.warn(`   - ${item}`);
+  }
+  console.warn('  run with your editor open and merge the missing settings manually');
+}
+
+function ensureNwTypes(cwd: string) {
+  const packageJsonPath = join(cwd, 'package.json');
+  if (!existsSync(packageJsonPath)) return;
+
+  const nwTypesPath = join(cwd, 'node_modules', '@types', 'nw.js', 'index.d.ts');
+  if (existsSync(nwTypesPath)) return;
+
+  console.log('  installing @types/nw.js for TypeScript auto-complete...');
+  const result = spawnSync('bun', ['add', '-d', '@types/nw.js'], {
+    cwd,
+    stdio: 'inherit',
+  });
+
+  if (result.status !== 0) {
+    console.warn('  could not install @types/nw.js automatically, continuing anyway');
+  }
+}
+
+interface NwHostOptions extends WindowOptions {
+  controlUrl: string;
+  replSocket: string;
+  nodeMainJs?: string;
+}
+
+// Writes a fresh temp host app and returns its directory.
+function createNwHostApp(options: NwHostOptions): string {
+  const hostDir = mkdtempSync(join(tmpdir(), 'windowd-nw-'));
+  const startUrl = new URL(options.url);
+  startUrl.searchParams.set('windowThisProjectDir', options.projectDir);
+  // Capture runs always start from the configured size so screenshots stay deterministic.
+  const windowState = options.capture ? undefined : {
+    path: join(getProjectDataDir(options.projectDir), 'window-state.json'),
+    restoreSize: !args.explicitSize,
+  };
+  writeNwHostApp(hostDir, { ...options, main: startUrl.toString(), windowState });
+  return hostDir;
+}
+
+interface NwHostManifestOptions extends Omit<WindowOptions, 'url' | 'nwBin' | 'onReady' | 'crashLog'> {
+  // Manifest `main` entry - the dev server URL, or a path relative to hostDir for builds.
+  main: string;
+  // Control server node-main connects to for ctl commands and to report the window closing; null for builds.
+  controlUrl: string | null;
+  // Socket node-main serves windowd repl on; null for builds.
+  replSocket: string | null;
+  // Bundled nw.nodeMain script, written next to node-main.
+  nodeMainJs?: string;
+  windowState?: WindowStateOptions;
+}
+
+interface WindowStateOptions {
+  // JSON file holding the main window's last bounds, maximized/fullscreen state and zoom.
+  path: string;
+  // False when --width/--height were passed, so the flags win over the saved size.
+  restoreSize: boolean;
+}
+
+function writeNwHostApp(hostDir: string, {
+  main,
+  title,
+  width,
+  height,
+  debug,
+  projectDir,
+  controlUrl,
+  replSocket,
+  windowThisConfig,
+  capture,
+  captureWait,
+  captureSizes,
+  steps,
+  appLog,
+  har,
+  consoleUrl,
+  nodeMainJs,
+  windowState,
+}: NwHostManifestOptions) {
+  const nodeMainPath = join(hostDir, 'windowd-node-main.js');
+
+  const windowConfig: Record<string, unknown> = {
+    title,
+    width,
+    height,
+    ...windowThisConfig.nw?.window,
+  };
+
+  // Auto-detect icon unless the user already set one via windowd-config.
+  // We pass the copied file name to node-main for win.setIcon(), which is more reliable
+  // than the manifest window.icon field on Windows. It is resolved against node-main's own
+  // directory so build output keeps working after it is moved.
+  let iconFile: string | null = null;
+  if (!windowConfig.icon) {
+    const iconSrc = getIconPath(projectDir) ?? DEFAULT_ICON_PATH;
+    const iconExt = extname(iconSrc);
+    const iconDest = join(hostDir, `windowd-icon${iconExt}`);
+    try {
+      copyFileSync(iconSrc, iconDest);
+      windowConfig.icon = `windowd-icon${iconExt}`;
+      iconFile = `windowd-icon${iconExt}`;
+    } catch { /* icon is cosmetic - ignore copy failures */ }
+  }
+
+  const manifest: Record<string, unknown> = {
+    name: 'windowd-host',
+    main,
+    'single-instance': false,
+    'node-main': 'windowd-node-main.js',
+    'node-remote': windowThisConfig.nw?.nodeRemote ?? ['<all_urls>'],
+    window: windowConfig,
+  };
+
+  const chromiumArgs: string[] = [];
+  if (windowThisConfig.nw?.chromiumArgs) chromiumArgs.push(windowThisConfig.nw.chromiumArgs);
+  if (debug) chromiumArgs.push('--enable-logging=stderr');
+  if (chromiumArgs.length > 0) manifest['chromium-args'] = chromiumArgs.join(' ');
+
+  applyUserManifestOverrides(manifest, windowThisConfig.nw?.manifest);
+
+  const preloadJs = buildPreloadJs({
+    appLog: appLog ?? null,
+    har: har ?? null,
+    captureWait: captureWait ?? null,
+    consoleUrl: consoleUrl ?? null,
+  });
+  if (preloadJs) {
+    writeFileSync(join(hostDir, PRELOAD_FILE), preloadJs + readUserInjectJs(projectDir, manifest.inject_js_start), 'utf-8');
+    manifest.inject_js_start = PRELOAD_FILE;
+  }
+
+  if (nodeMainJs) writeFileSync(join(hostDir, 'windowd-user-main.js'), nodeMainJs, 'utf-8');
+
+  writeFileSync(join(hostDir, 'package.json'), JSON.stringify(manifest, null, 2), 'utf-8');
+  writeFileSync(nodeMainPath, buildNodeMainJs({
+    controlUrl,
+    replSocket,
+    userMainFile: nodeMainJs ? 'windowd-user-main.js' : null,
+    // Builds get moved around, so their node-main reports its own folder instead.
+    projectDir: controlUrl ? projectDir : null,
+    menu: resolveMenu(windowThisConfig.nw?.menu, process.platform, title),
+    tray: windowThisConfig.nw?.tray ? writeTrayIcon(hostDir, projectDir, windowThisConfig.nw.tray, title) : null,
+    shortcuts: resolveShortcuts(windowThisConfig.nw?.shortcuts, process.platform),
+    iconFile,
+    captureDir: capture ?? null,
+    captureWait: captureWait ?? null,
+    captureSizes: captureSizes?.map(size => ({ ...size, file: captureSizeFile(size) })) ?? null,
+    steps: steps ?? null,
+    appLog: appLog ?? null,
+    windows: windowThisConfig.windows ?? {},
+    windowState: windowState ?? null,
+  }), 'utf-8');
+}
+
+// Copies the tray icon next to node-main: nw.tray.icon, else the app icon getIconPath finds,
+// else windowd's default.
+function writeTrayIcon(hostDir: string, projectDir: string, tray: TrayDefinition, title: string): TrayPlan {
+  let iconSrc = tray.icon ? resolve(projectDir, tray.icon) : getIconPath(projectDir) ?? DEFAULT_ICON_PATH;
+  if (!existsSync(iconSrc)) {
+    console.warn(`  nw.tray.icon ${iconSrc} not found, using the default icon`);
+    iconSrc = DEFAULT_ICON_PATH;
+  }
+  const iconFile = `windowd-tray-icon${extname(iconSrc)}`;
+  copyFileSync(iconSrc, join(hostDir, iconFile));
+  return {
+    iconFile,
+    tooltip: tray.tooltip ?? title,
+    menu: resolveTrayMenu(tray.menu, process.platform),
+    hideOnClose: tray.hideOnClose ?? false,
+    toggleOnClick: tray.toggleOnClick ?? false,
+  };
+}
+
+// A user nw.manifest.inject_js_start script still runs: it is appended after windowd's own
+// sections, so it sees the same hooked console and network APIs as the app.
+function readUserInjectJs(projectDir: string, inject: unknown): string {
+  if (typeof inject !== 'string' || inject.trim().length === 0) return '';
+  const scriptPath = resolve(projectDir, inject);
+  try {
+    return `\n// ${inject}\n${readFileSync(scriptPath, 'utf-8')}`;
+  } catch {
+    console.warn(`  nw.manifest.inject_js_start: could not read ${scriptPath}, skipping it`);
+    return '';
+  }
+}
+
+interface PreloadOptions {
+  appLog: AppLogOptions | null;
+  har: HarOptions | null;
+  captureWait: CaptureWait | null;
+  consoleUrl: string | null;
+}
+
+// The preload runs through inject_js_start, before any app script. Each feature adds its
+// own self-contained section; returns null when no section is needed.
+function buildPreloadJs({ appLog, har, captureWait, consoleUrl }: PreloadOptions): string | null {
+  const sections: string[] = [];
+  if (captureWait) sections.push(buildReadinessPreloadJs(), buildErrorPreloadJs());
+  if (appLog) sections.push(buildLogPreloadJs(appLog));
+  if (consoleUrl) sections.push(buildConsolePreloadJs(consoleUrl));
+  if (har) sections.push(buildNetworkPreloadJs(har, pkgJson.version));
+  return sections.length > 0 ? sections.join('\n') : null;
+}
+
+function buildErrorPreloadJs(): string {
+  return `
+(() => {
+  // Capture error collection. Installed before the first app script so boot-time errors are
+  // kept too; node-main copies window.__windowdErrors into result.json.
+  const MAX_ERRORS = 100;
+  const errors = [];
+  window.__windowdErrors = errors;
+  const record = (entry) => {
+    if (errors.length < MAX_ERRORS) errors.push(entry);
+  };
+
+  window.addEventListener('error', (e) => {
+    const target = e.target;
+    // Failed <script>/<link>/<img> loads arrive here too (capture phase only); a 500 from Vite
+    // for a module that does not compile shows up this way.
+    if (target && target !== window && target.tagName) {
+      record({ source: 'resource', message: 'failed to load ' + (target.src || target.href || target.tagName.toLowerCase()) });
+      return;
+    }
+    record({
+      source: 'renderer',
+      message: e.message || String(e.error || e),
+      file: e.filename || undefined,
+      line: e.lineno || undefined,
+      column: e.colno || undefined,
+      stack: (e.error && e.error.stack) || undefined,
+    });
+  }, true);
+
+  window.addEventListener('unhandledrejection', (e) => {
+    const reason = e.reason;
+    record({
+      source: 'renderer',
+      message: 'Unhandled rejection: ' + ((reason && reason.message) || String(reason)),
+      stack: (reason && reason.stack) || undefined,
+    });
+  });
+
+  // Vite shows compile and runtime errors in a <vite-error-overlay> element with a shadow root.
+  const readOverlay = (overlay) => {
+    const root = overlay.shadowRoot;
+    const text = (selector) => {
+      const node = root && root.querySelector(selector);
+      return node ? node.textContent.trim() : '';
+    };
+    const location = text('.file').match(/^(.*?)(?::(\\d+):(\\d+))?$/);
+    record({
+      source: 'vite-overlay',
+      message: text('.message-body') || text('.message') || 'Vite error overlay shown',
+      file: (location && location[1]) || undefined,
+      line: location && location[2] ? Number(location[2]) : undefined,
+      column: location && location[3] ? Number(location[3]) : undefined,
+      stack: text('.stack') || undefined,
+    });
+  };
+
+  new MutationObserver((mutations) => {
+    for (const mutation of mutations) {
+      for (const node of mutation.addedNodes) {
+        if (node.nodeName === 'VITE-ERROR-OVERLAY') setTimeout(() => readOverlay(node), 0);
+      }
+    }
+  }).observe(document, { childList: true, subtree: true });
+})();
+`;
+}
+
+function buildReadinessPreloadJs(): string {
+  return `
+(() => {
+  // Capture readiness hooks. node-main polls these while it waits to take the screenshot.
+  window.__windowdReadyAt = null;
+  window.windowdReady = () => {
+    if (window.__windowdReadyAt === null) window.__windowdReadyAt = Date.now();
+  };
+
+  const network = { inflight: 0, lastActivity: Date.now() };
+  window.__windowdNetwork = network;
+  const begin = () => { network.inflight++; network.lastActivity = Date.now(); };
+  const end = () => { network.inflight = Math.max(0, network.inflight - 1); network.lastActivity = Date.now(); };
+
+  if (typeof window.fetch === 'function') {
+    const originalFetch = window.fetch;
+    window.fetch = function(...args) {
+      begin();
+      return originalFetch.apply(this, args).finally(end);
+    };
+  }
+
+  const originalSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.send = function(...args) {
+    begin();
+    this.addEventListener('loadend', end, { once: true });
+    return originalSend.apply(this, args);
+  };
+
+  try {
+    new PerformanceObserver(() => { network.lastActivity = Date.now(); })
+      .observe({ type: 'resource', buffered: true });
+  } catch {}
+})();
+`;
+}
+
+function buildNetworkPreloadJs(har: HarOptions, version: string): string {
+  return `
+(() => {
+  // Network recording for network.har. Each page load keeps its own entries and rewrites its
+  // share of the file, so reloads and secondary windows add to the same HAR.
+  const fs = require('fs');
+  const __har = ${JSON.stringify(har)};
+  const MAX_ENTRIES = 1000;
+  const FLUSH_DELAY_MS = 250;
+  const windowId = new URLSearchParams(location.search).get('windowdWindow') || 'main';
+  const pageId = windowId + '@' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+  const page = {
+    startedDateTime: new Date().toISOString(),
+    id: pageId,
+    title: windowId + ' ' + location.href,
+    pageTimings: {},
+  };
+  const entries = [];
+
+  // Vite's own traffic: HMR sockets, the ping and anything served from its internal paths.
+  const VITE_PATHS = /^\\/(@vite|@fs|@id|@react-refresh|__vite_ping|node_modules\\/\\.vite)(\\/|$)/;
+  const isViteRequest = (url, protocols) => {
+    if (__har.includeVite) return false;
+    if (protocols && protocols.some((p) => p === 'vite-hmr' || p === 'vite-ping')) return true;
+    try {
+      return VITE_PATHS.test(new URL(url, location.href).pathname);
+    } catch {
+      return false;
+    }
+  };
+
+  let flushTimer = null;
+  const flush = () => {
+    flushTimer = null;
+    try {
+      let log = null;
+      try {
+        log = JSON.parse(fs.readFileSync(__har.path, 'utf-8')).log;
+      } catch {}
+      if (!log) log = { version: '1.2', creator: { name: 'windowd', version: ${JSON.stringify(version)} }, pages: [], entries: [] };
+      log.pages = log.pages.filter((p) => p.id !== pageId).concat(page);
+      log.entries = log.entries.filter((e) => e.pageref !== pageId).concat(entries);
+      fs.writeFileSync(__har.path, JSON.stringify({ log }, null, 2));
+    } catch {}
+  };
+  const scheduleFlush = () => {
+    if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+  };
+  addEventListener('pagehide', () => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flush();
+  });
+
+  const capBody = (text) => {
+    if (typeof text !== 'string') return undefined;
+    return text.length > __har.bodyLimit ? text.slice(0, __har.bodyLimit) : text;
+  };
+  const bodyText = (body) => {
+    if (typeof body === 'string') return body;
+    if (body instanceof URLSearchParams) return body.toString();
+    return undefined;
+  };
+  const toHeaderList = (headers) => {
+    const list = [];
+    if (!headers) return list;
+    if (typeof headers.forEach === 'function' && !Array.isArray(headers)) {
+      headers.forEach((value, name) => list.push({ name, value: String(value) }));
+    } else if (Array.isArray(headers)) {
+      for (const [name, value] of headers) list.push({ name, value: String(value) });
+    } else {
+      for (const name of Object.keys(headers)) list.push({ name, value: String(headers[name]) });
+    }
+    return list;
+  };
+  const parseRawHeaders = (raw) => String(raw || '').trim().split(/[\\r\\n]+/).filter(Boolean).map((line) => {
+    const at = line.indexOf(':');
+    return { name: line.slice(0, at).trim(), value: line.slice(at + 1).trim() };
+  });
+  const queryOf = (url) => {
+    try {
+      return Array.from(new URL(url, location.href).searchParams, ([name, value]) => ({ name, value }));
+    } catch {
+      return [];
+    }
+  };
+  const headerValue = (headers, name) => {
+    const found = headers.find((h) => h.name.toLowerCase() === name);
+    return found ? found.value : '';
+  };
+
+  // Starts an entry; the returned finish() fills in the response once it is known.
+  const startEntry = (method, url, headers, body) => {
+    const started = Date.now();
+    const entry = {
+      pageref: pageId,
+      startedDateTime: new Date(started).toISOString(),
+      time: 0,
+      request: {
+        method: String(method || 'GET').toUpperCase(),
+        url: new URL(url, location.href).toString(),
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers,
+        queryString: queryOf(url),
+        headersSize: -1,
+        bodySize: -1,
+      },
+      response: {
+        status: 0, statusText: '', httpVersion: 'HTTP/1.1', cookies: [], headers: [],
+        content: { size: -1, mimeType: '' }, redirectURL: '', headersSize: -1, bodySize: -1,
+      },
+      cache: {},
+      timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0 },
+    };
+    const text = bodyText(body);
+    if (text !== undefined) {
+      entry.request.bodySize = text.length;
+      if (__har.bodyLimit > 0) {
+        entry.request.postData = { mimeType: headerValue(headers, 'content-type'), text: capBody(text) };
+      }
+    }
+    if (entries.length < MAX_ENTRIES) entries.push(entry);
+    scheduleFlush();
+
+    let headersAt = null;
+    return {
+      entry,
+      headersReceived() {
+        headersAt = Date.now();
+        entry.timings.wait = headersAt - started;
+      },
+      finish({ status, statusText, headers, text, error }) {
+        const now = Date.now();
+        entry.time = now - started;
+        entry.timings.receive = headersAt ? now - headersAt : 0;
+        if (!headersAt) entry.timings.wait = entry.time;
+        entry.response.status = status || 0;
+        entry.response.statusText = statusText || '';
+        entry.response.headers = headers || [];
+        entry.response.content.mimeType = headerValue(entry.response.headers, 'content-type');
+        if (typeof text === 'string') {
+          entry.response.content.size = text.length;
+          entry.response.bodySize = text.length;
+          if (__har.bodyLimit > 0) entry.response.content.text = capBody(text);
+        }
+        if (error) entry._error = String(error);
+        scheduleFlush();
+      },
+    };
+  };
+
+  if (typeof window.fetch === 'function') {
+    const originalFetch = window.fetch;
+    window.fetch = function(input, init) {
+      const request = input instanceof Request ? input : null;
+      const url = request ? request.url : String(input);
+      if (isViteRequest(url)) return originalFetch.apply(this, arguments);
+
+      const method = (init && init.method) || (request && request.method) || 'GET';
+      const headers = toHeaderList((init && init.headers) || (request && request.headers));
+      const record = startEntry(method, url, headers, init && init.body);
+      return originalFetch.apply(this, arguments).then((response) => {
+        record.headersReceived();
+        const details = {
+          status: response.status,
+          statusText: response.statusText,
+          headers: toHeaderList(response.headers),
+        };
+        if (__har.bodyLimit > 0) {
+          response.clone().text().then(
+            (text) => record.finish({ ...details, text }),
+            () => record.finish(details),
+          );
+        } else {
+          record.finish(details);
+        }
+        return response;
+      }, (error) => {
+        record.finish({ error: (error && error.message) || error });
+        throw error;
+      });
+    };
+  }
+
+  const xhrOpen = XMLHttpRequest.prototype.open;
+  const xhrSetRequestHeader = XMLHttpRequest.prototype.setRequestHeader;
+  const xhrSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.open = function(method, url) {
+    this.__windowdHar = { method, url: String(url), headers: [] };
+    return xhrOpen.apply(this, arguments);
+  };
+  XMLHttpRequest.prototype.setRequestHeader = function(name, value) {
+    if (this.__windowdHar) this.__windowdHar.headers.push({ name, value: String(value) });
+    return xhrSetRequestHeader.apply(this, arguments);
+  };
+  XMLHttpRequest.prototype.send = function(body) {
+    const info = this.__windowdHar;
+    if (info && !isViteRequest(info.url)) {
+      const record = startEntry(info.method, info.url, info.headers, body);
+      this.addEventListener('readystatechange', () => {
+        if (this.readyState === 2) record.headersReceived();
+      });
+      this.addEventListener('loadend', () => {
+        const readable = this.responseType === '' || this.responseType === 'text';
+        record.finish({
+          status: this.status,
+          statusText: this.statusText,
+          headers: parseRawHeaders(this.getAllResponseHeaders()),
+          text: readable ? this.responseText : undefined,
+          error: this.status === 0 ? 'request failed' : undefined,
+        });
+      }, { once: true });
+    }
+    return xhrSend.apply(this, arguments);
+  };
+
+  // WebSockets are kept as one entry with Chrome's _webSocketMessages extension.
+  if (typeof window.WebSocket === 'function') {
+    const OriginalWebSocket = window.WebSocket;
+    const messageData = (data) => {
+      if (typeof data !== 'string') return '[binary ' + (data.byteLength || data.size || 0) + ' bytes]';
+      return __har.bodyLimit > 0 ? capBody(data) : '';
+    };
+    const WindowdWebSocket = function(url, protocols) {
+      const socket = protocols === undefined ? new OriginalWebSocket(url) : new OriginalWebSocket(url, protocols);
+      const protocolList = protocols === undefined ? [] : [].concat(protocols);
+      if (isViteRequest(String(url), protocolList)) return socket;
+
+      const record = startEntry('GET', String(url), [], undefined);
+      const messages = record.entry._webSocketMessages = [];
+      const started = Date.now();
+      const push = (type, data) => {
+        if (messages.length >= MAX_ENTRIES) return;
+        messages.push({ type, time: Date.now() / 1000, opcode: typeof data === 'string' ? 1 : 2, data: messageData(data) });
+        scheduleFlush();
+      };
+      socket.addEventListener('open', () => {
+        record.headersReceived();
+        record.entry.response.status = 101;
+        record.entry.response.statusText = 'Switching Protocols';
+        scheduleFlush();
+      });
+      socket.addEventListener('message', (event) => push('receive', event.data));
+      socket.addEventListener('close', (event) => {
+        record.entry.time = Date.now() - started;
+        if (!event.wasClean) record.entry._error = 'closed with code ' + event.code;
+        scheduleFlush();
+      });
+      const send = socket.send;
+      socket.send = function(data) {
+        push('send', data);
+        return send.apply(this, arguments);
+      };
+      return socket;
+    };
+    WindowdWebSocket.prototype = OriginalWebSocket.prototype;
+    for (const key of ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED']) WindowdWebSocket[key] = OriginalWebSocket[key];
+    window.WebSocket = WindowdWebSocket;
+  }
+})();
+`;
+}
+
+interface NodeMainOptions {
+  controlUrl: string | null;
+  replSocket: string | null;
+  userMainFile: string | null;
+  projectDir: string | null;
+  menu: MenuPlan | null;
+  tray: TrayPlan | null;
+  shortcuts: ShortcutPlan;
+  iconFile: string | null;
+  captureDir: string | null;
+  captureWait: CaptureWait | null;
+  captureSizes: (WindowSize & { file: string })[] | null;
+  steps: LabeledStep[] | null;
+  appLog: AppLogOptions | null;
+  windows: Record<string, WindowDefinition>;
+  windowState: WindowStateOptions | null;
+}
+
+function buildNodeMainJs({
+  controlUrl, replSocket, userMainFile, projectDir, menu, tray, shortcuts, iconFile, captureDir, captureWait, captureSizes, steps, appLog, windows, windowState,
+}: NodeMainOptions): string {
+  // node-main runs from the temp host dir, so ws is loaded from windowd's own install. Resolved
+  // through package.json because Bun answers a bare 'ws' with its built-in module name.
+  const wsModulePath = controlUrl ? dirname(createRequire(import.meta.url).resolve('ws/package.json')) : null;
+  return `
+(() => {
+  const controlUrl = ${JSON.stringify(controlUrl)};
+  const replSocket = ${JSON.stringify(replSocket)};
+  const userMainFile = ${JSON.stringify(userMainFile)};
+  const menuPlan = ${JSON.stringify(menu)};
+  const trayPlan = ${JSON.stringify(tray)};
+  const shortcutPlan = ${JSON.stringify(shortcuts)};
+  const projectDir = ${JSON.stringify(projectDir)} || __dirname;
+  const wsModulePath = ${JSON.stringify(wsModulePath)};
+  const __captureDir = ${JSON.stringify(captureDir)};
+  const __captureWait = ${JSON.stringify(captureWait)};
+  const __captureSizes = ${JSON.stringify(captureSizes)};
+  const __steps = ${JSON.stringify(steps)};
+  const fs = require('fs');
+  const pathMod = require('path');
+  const iconFile = ${JSON.stringify(iconFile)};
+  const iconPath = iconFile ? pathMod.join(__dirname, iconFile) : null;
+  const windowDefs = ${JSON.stringify(windows)};
+  const __windowState = ${JSON.stringify(windowState)};
+  ${buildAppLogWriterJs(appLog)}
+  const appendAppLog = (line) => writeAppLog({
+    time: new Date().toISOString(),
+    level: 'info',
+    window: 'node-main',
+    message: line,
+    args: [line],
+    source: null,
+  });
+
+  // Connection to the CLI's control server: it relays windowd ctl commands here, and this
+  // side reports when the user closed the window so the CLI can end the session.
+  let control = null;
+  let sessionEnding = false;
+  const connectControl = (handleMessage) => {
+    if (!controlUrl || sessionEnding) return;
+    let socket;
+    try {
+      const WebSocket = require(wsModulePath);
+      socket = new WebSocket(controlUrl);
+    } catch (err) {
+      appendAppLog('control channel unavailable: ' + err);
+      return;
+    }
+    socket.on('message', (data) => handleMessage(socket, data));
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      if (control === socket) control = null;
+      setTimeout(() => connectControl(handleMessage), 1000);
+    });
+    control = socket;
+  };
+  const signalClose = () => {
+    sessionEnding = true;
+    if (!control || control.readyState !== 1) return;
+    try {
+      control.send(JSON.stringify({ jsonrpc: '2.0', method: 'closed' }));
+    } catch {}
+  };
+
+  const nwApi = typeof globalThis.nw !== 'undefined' ? globalThis.nw : null;
+  if (!nwApi || !nwApi.Window || !nwApi.Window.get) {
+    console.warn('[windowd] NW API unavailable in node-main.');
+    appendAppLog('NW API unavailable in node-main');
+    return;
+  }
+  appendAppLog('node-main started');
+
+  const waitForWindow = (timeoutMs = 15000) => new Promise((resolve, reject) => {
+    const started = Date.now();
+    const tick = () => {
+      try {
+        const win = nwApi.Window.get();
+        if (win) return resolve(win);
+      } catch {}
+      if (Date.now() - started > timeoutMs) {
+        reject(new Error('No current window after waiting'));
+        return;
+      }
+      setTimeout(tick, 100);
+    };
+    tick();
+  });
+
+  // Every window windowd opened; the session only ends once the last one is closed.
+  const openWindows = new Set();
+  // Where menu actions go; falls back to the main window.
+  let focusedWindow = null;
+
+  const endSession = () => {
+    signalClose();
+    try {
+      nwApi.App.quit();
+    } catch {}
+    try {
+      process.exit(0);
+    } catch {}
+  };
+
+  // Closing every window runs their normal close path, so the last one sends the close signal
+  // and ends the session. Set while quitting so nw.tray.hideOnClose lets the main window go.
+  let quitting = false;
+  const quitApp = () => {
+    quitting = true;
+    if (openWindows.size === 0) return endSession();
+    for (const win of [...openWindows]) win.close();
+  };
+
+  const readWindowState = () => {
+    try {
+      return JSON.parse(fs.readFileSync(__windowState.path, 'utf-8'));
+    } catch {
+      return null;
+    }
+  };
+
+  const restoreWindowState = (win) => {
+    const state = readWindowState();
+    if (!state) return;
+    try {
+      if (__windowState.restoreSize && state.width > 0 && state.height > 0) win.resizeTo(state.width, state.height);
+      if (Number.isFinite(state.x) && Number.isFinite(state.y)) win.moveTo(state.x, state.y);
+      if (typeof state.zoomLevel === 'number') win.zoomLevel = state.zoomLevel;
+      if (state.fullscreen) win.enterFullscreen();
+      else if (state.maximized) win.maximize();
+      appendAppLog('restored window state');
+    } catch (err) {
+      appendAppLog('failed to restore window state: ' + err);
+    }
+  };
+
+  // Records the main window's normal bounds, maximized/fullscreen state and zoom level.
+  // Returns a flush function so the last change is written before the window closes.
+  const trackWindowState = (win) => {
+    const state = { maximized: false, fullscreen: false, ...(readWindowState() || {}) };
+    let previousBounds = null;
+    let minimized = false;
+    let timer = null;
+
+    const save = () => {
+      clearTimeout(timer);
+      try {
+        fs.mkdirSync(pathMod.dirname(__windowState.path), { recursive: true });
+        fs.writeFileSync(__windowState.path, JSON.stringify(state, null, 2));
+      } catch (err) {
+        appendAppLog('failed to save window state: ' + err);
+      }
+    };
+    const scheduleSave = () => {
+      clearTimeout(timer);
+      timer = setTimeout(save, 300);
+    };
+    const recordBounds = () => {
+      if (state.maximized || state.fullscreen || minimized) return;
+      previousBounds = { x: state.x, y: state.y, width: state.width, height: state.height };
+      Object.assign(state, { x: win.x, y: win.y, width: win.width, height: win.height });
+      scheduleSave();
+    };
+    // Maximize and fullscreen fire a resize first; keep the bounds from before it.
+    const keepNormalBounds = () => {
+      if (previousBounds) Object.assign(state, previousBounds);
+    };
+
+    win.on('move', recordBounds);
+    win.on('resize', recordBounds);
+    win.on('minimize', () => { minimized = true; });
+    win.on('maximize', () => {
+      keepNormalBounds();
+      state.maximized = true;
+      scheduleSave();
+    });
+    win.on('restore', () => {
+      if (minimized) minimized = false;
+      else state.maximized = false;
+      scheduleSave();
+    });
+    win.on('enter-fullscreen', () => {
+      keepNormalBounds();
+      state.fullscreen = true;
+      scheduleSave();
+    });
+    win.on('leave-fullscreen', () => {
+      state.fullscreen = false;
+      scheduleSave();
+    });
+    win.on('zoom', (level) => {
+      state.zoomLevel = level;
+      scheduleSave();
+    });
+    return save;
+  };
+
+  const openDevTools = (win) => {
+    try {
+      if (typeof win.showDevTools !== 'function') {
+        console.warn('[windowd] DevTools unavailable, ensure NW.js SDK build is installed.');
+        try { alert('[windowd] DevTools unavailable in this NW runtime.'); } catch {}
+        return;
+      }
+      const devtoolsWin = win.showDevTools();
+      if (devtoolsWin && typeof devtoolsWin.focus === 'function') {
+        devtoolsWin.focus();
+      }
+    } catch (error) {
+      console.error('[windowd] Failed to open DevTools', error);
+      try { alert('[windowd] Failed to open DevTools.'); } catch {}
+    }
+  };
+
+  const capturePagePng = (win) => new Promise((resolve, reject) => {
+    try {
+      win.capturePage((buffer) => resolve(buffer), { format: 'png', datatype: 'buffer' });
+    } catch (err) {
+      reject(err);
+    }
+  });
+
+  const installHandlers = (win, isMain, onClose) => {
+    openWindows.add(win);
+    win.on('focus', () => { focusedWindow = win; });
+    if (iconPath && typeof win.setIcon === 'function') {
+      try { win.setIcon(iconPath); } catch {}
+    }
+
+    // A reload gives the window a new win.window, so this runs again on every 'loaded';
+    // the set keeps a page that was already there at startup from getting two keymaps.
+    const attachedPages = new WeakSet();
+    const attachToDocument = () => {
+      const doc = win.window && win.window.document;
+      if (!doc || attachedPages.has(win.window)) return;
+      attachedPages.add(win.window);
+      appendAppLog('document available, attaching handlers');
+
+      // An app that handles a key itself and calls preventDefault() keeps it.
+      win.window.addEventListener('keydown', (event) => {
+        if (event.defaultPrevented) return;
+        const binding = findKeyBinding(event);
+        if (!binding) return;
+        event.preventDefault();
+        runShortcut(binding.action, win);
+      });
+    };
+
+    attachToDocument();
+    win.on('loaded', attachToDocument);
+
+    win.on('close', function() {
+      // With nw.tray.hideOnClose the main window lives on in the tray until the tray's Quit.
+      if (isMain && tray && trayPlan.hideOnClose && !quitting) {
+        mainHidden = true;
+        this.hide();
+        return;
+      }
+      if (onClose) onClose();
+      openWindows.delete(win);
+      if (focusedWindow === win) focusedWindow = null;
+      const wasLast = openWindows.size === 0;
+      // Signal before closing so the CLI hears about it even if the process dies with the window.
+      if (wasLast) signalClose();
+      try {
+        this.close(true);
+      } catch {}
+      if (wasLast) endSession();
+    });
+
+    // Only NW's own events say the window is gone; a page unload may just be a reload. A forced
+    // win.close(true), say from an nw.nodeMain script, skips 'close' but still fires 'closed'.
+    win.on('closed', () => {
+      if (!openWindows.has(win)) return;
+      openWindows.delete(win);
+      if (focusedWindow === win) focusedWindow = null;
+      if (openWindows.size === 0) endSession();
+    });
+  };
+
+  const resolveWindowUrl = ${resolveWindowUrl};
+  const resolveWindowOpenOptions = ${resolveWindowOpenOptions};
+
+  const openSecondaryWindows = (mainWin) => {
+    const baseHref = mainWin.window && mainWin.window.location && mainWin.window.location.href;
+    if (!baseHref) return;
+    for (const [id, def] of Object.entries(windowDefs)) {
+      const options = resolveWindowOpenOptions(id, def);
+      let url;
+      try {
+        url = resolveWindowUrl(def, baseHref, id);
+      } catch (err) {
+        appendAppLog('invalid url for window ' + id + ': ' + err);
+        continue;
+      }
+      appendAppLog('opening window ' + id + ' -> ' + url);
+      try {
+        nwApi.Window.open(url, options, (child) => {
+          if (child) installHandlers(child, false);
+        });
+      } catch (err) {
+        appendAppLog('failed to open window ' + id + ': ' + err);
+      }
+    }
+  };
+
+  if (nwApi.App && typeof nwApi.App.on === 'function') {
+    nwApi.App.on('window-all-closed', endSession);
+  }
+
+  let mainWindow = null;
+
+  // A JSON-safe copy of an eval result; anything JSON can't hold comes back as its string form.
+  const toJsonValue = (value) => {
+    if (value === undefined) return null;
+    try {
+      const text = JSON.stringify(value);
+      return text === undefined ? String(value) : JSON.parse(text);
+    } catch {
+      return String(value);
+    }
+  };
+
+  const reloadWindow = (win, ignoreCache) => {
+    if (ignoreCache) win.reloadIgnoringCache();
+    else win.reload();
+  };
+
+  const controlMethods = {
+    reload: (win) => reloadWindow(win, false),
+    screenshot: async (win, params) => {
+      const buffer = await capturePagePng(win);
+      fs.mkdirSync(pathMod.dirname(params.path), { recursive: true });
+      fs.writeFileSync(params.path, buffer);
+      return { path: params.path, width: win.width, height: win.height };
+    },
+    eval: async (win, params) => ({ value: toJsonValue(await win.window.eval(params.code)) }),
+    devtools: (win) => openDevTools(win),
+    resize: (win, params) => {
+      win.resizeTo(params.width, params.height);
+      return { width: params.width, height: params.height };
+    },
+    focus: (win) => {
+      win.show();
+      win.focus();
+    },
+    // Answer first; quitting runs the normal close path, which ends the session.
+    close: () => {
+      setTimeout(quitApp, 50);
+    },
+  };
+
+  const handleControlMessage = async (socket, data) => {
+    let request;
+    try {
+      request = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    const reply = (body) => {
+      try {
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, ...body }));
+      } catch {}
+    };
+    const method = controlMethods[request.method];
+    if (!method) return reply({ error: { code: -32601, message: 'unknown method ' + request.method } });
+    if (!mainWindow) return reply({ error: { code: -32000, message: 'the window is still starting' } });
+    try {
+      const result = await method(mainWindow, request.params || {});
+      reply({ result: result === undefined ? null : result });
+    } catch (err) {
+      reply({ error: { code: -32603, message: String((err && err.message) || err), data: { stack: err && err.stack } } });
+    }
+    appendAppLog('ctl ' + request.method);
+  };
+
+  connectControl(handleControlMessage);
+
+  // nw.menu and nw.tray menus, resolved by the CLI: roles run here, items with an id are
+  // dispatched to the page as windowd:menu or windowd:tray events. Both act on the window the
+  // user last focused.
+
+  const runMenuRole = (role, win) => {
+    switch (role) {
+      case 'undo':
+      case 'redo':
+      case 'cut':
+      case 'copy':
+      case 'paste':
+      case 'selectAll':
+      case 'delete':
+        win.window.document.execCommand(role);
+        return;
+      case 'reload':
+        return reloadWindow(win, false);
+      case 'forceReload':
+        return reloadWindow(win, true);
+      case 'toggleDevTools':
+        if (typeof win.isDevToolsOpen === 'function' && win.isDevToolsOpen()) win.closeDevTools();
+        else openDevTools(win);
+        return;
+      case 'toggleFullscreen':
+        return win.toggleFullscreen();
+      case 'zoomIn':
+        win.zoomLevel += 0.5;
+        return;
+      case 'zoomOut':
+        win.zoomLevel -= 0.5;
+        return;
+      case 'resetZoom':
+        win.zoomLevel = 0;
+        return;
+      case 'minimize':
+        return win.minimize();
+      case 'close':
+        return win.close();
+      case 'quit':
+        return quitApp();
+    }
+  };
+
+  // Dispatches on the window the user last focused, for menu, tray and global shortcut events.
+  const dispatchToPage = (eventName, detail) => {
+    const win = focusedWindow || mainWindow;
+    if (!win || !win.window) return;
+    const page = win.window;
+    page.dispatchEvent(new page.CustomEvent(eventName, { detail }));
+  };
+
+  const buildMenuItem = (def, eventName) => {
+    if (def.type === 'separator') return new nwApi.MenuItem({ type: 'separator' });
+    const options = { label: def.label, type: def.type, enabled: def.enabled };
+    if (def.type === 'checkbox') options.checked = def.checked;
+    if (def.key) {
+      options.key = def.key;
+      if (def.modifiers) options.modifiers = def.modifiers;
+    }
+    if (def.submenu) {
+      options.submenu = new nwApi.Menu();
+      for (const child of def.submenu) options.submenu.append(buildMenuItem(child, eventName));
+    }
+    const item = new nwApi.MenuItem(options);
+    if (def.submenu) return item;
+    item.click = () => {
+      const win = focusedWindow || mainWindow;
+      if (!win) return;
+      try {
+        if (def.role) runMenuRole(def.role, win);
+        if (def.id) dispatchToPage(eventName, def.type === 'checkbox' ? { id: def.id, checked: item.checked } : { id: def.id });
+      } catch (err) {
+        appendAppLog('menu item ' + (def.id || def.role) + ' failed: ' + err);
+      }
+    };
+    return item;
   };
 
-  const chromiumArgs: string[] = [];
-  if (windowThisConfig.nw?.chromiumArgs) chromiumArgs.push(windowThisConfig.nw.chromiumArgs);
-  if (debug) chromiumArgs.push('--enable-logging=stderr');
-  if (chromiumArgs.length > 0) manifest['chromium-args'] = chromiumArgs.join(' ');
+  // nw.shortcuts, resolved by the CLI into chords. Shift only counts for letters, digits and named
+  // keys, since for symbols it is part of typing them: Ctrl+Shift+= arrives as Ctrl and '+'.
+  const findKeyBinding = (event) => {
+    if (typeof event.key !== 'string') return null;
+    const key = event.key.toLowerCase();
+    const shiftCounts = key.length > 1 || /[a-z0-9]/.test(key);
+    const modifiers = [
+      event.metaKey && 'cmd',
+      event.ctrlKey && 'ctrl',
+      event.altKey && 'alt',
+      event.shiftKey && shiftCounts && 'shift',
+    ].filter(Boolean).join('+');
+    return shortcutPlan.keys.find((binding) => binding.key === key && binding.modifiers === modifiers) || null;
+  };
 
-  applyUserManifestOverrides(manifest, windowThisConfig.nw?.manifest);
+  const SHORTCUT_ROLES = {
+    reload: 'reload',
+    hardReload: 'forceReload',
+    zoomIn: 'zoomIn',
+    zoomOut: 'zoomOut',
+    resetZoom: 'resetZoom',
+    toggleFullscreen: 'toggleFullscreen',
+    closeWindow: 'close',
+  };
 
-  if (appLogPath) {
-    writeFileSync(join(hostDir, 'windowd-preload.js'), buildPreloadJs(appLogPath), 'utf-8');
-    const existingInject = manifest.inject_js_start;
-    if (typeof existingInject === 'string' && existingInject.trim().length > 0) {
-      console.warn('  overriding nw.manifest.inject_js_start while --artifacts is enabled');
-    } else {
-      // no-op, explicit branch keeps intent obvious
+  const runShortcut = (action, win) => {
+    try {
+      if (action === 'devTools') openDevTools(win);
+      else runMenuRole(SHORTCUT_ROLES[action], win);
+    } catch (err) {
+      appendAppLog('shortcut ' + action + ' failed: ' + err);
     }
-    manifest.inject_js_start = 'windowd-preload.js';
-  }
+  };
 
-  writeFileSync(join(hostDir, 'package.json'), JSON.stringify(manifest, null, 2), 'utf-8');
-  writeFileSync(nodeMainPath, buildNodeMainJs(closeSignalUrl, resolvedIconDest, capture ?? null, appLogPath ?? null), 'utf-8');
-  return { hostDir, userDataDir };
-}
+  // Held here so the registered shortcuts aren't garbage collected.
+  const globalShortcuts = [];
 
-function buildPreloadJs(appLogPath: string): string {
-  return `
-(() => {
-  const __appLogPath = ${JSON.stringify(appLogPath)};
-  const fs = require('fs');
-  const pathMod = require('path');
-  const MAX_BYTES = 8 * 1024 * 1024;
-
-  const safeStringify = (value, seen = new WeakSet()) => {
-    if (typeof value === 'string') return value;
-    if (value === null || value === undefined) return String(value);
-    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') return String(value);
-    if (typeof value === 'function') return '[function]';
-    if (typeof value === 'symbol') return value.toString();
-    if (typeof value !== 'object') return String(value);
-    if (seen.has(value)) return '[circular]';
-    seen.add(value);
-    try {
-      return JSON.stringify(value, (_k, v) => {
-        if (typeof v === 'object' && v !== null) {
-          if (seen.has(v)) return '[circular]';
-          seen.add(v);
-        }
-        return v;
-      });
-    } catch {
-      return String(value);
+  const registerGlobalShortcuts = () => {
+    if (typeof nwApi.Shortcut !== 'function') return;
+    for (const { id, key } of shortcutPlan.global) {
+      try {
+        const shortcut = new nwApi.Shortcut({
+          key,
+          active: () => dispatchToPage('windowd:shortcut', { id }),
+          failed: (err) => appendAppLog('global shortcut ' + key + ' failed: ' + err),
+        });
+        nwApi.App.registerGlobalHotKey(shortcut);
+        globalShortcuts.push(shortcut);
+      } catch (err) {
+        appendAppLog('global shortcut ' + key + ' failed: ' + err);
+      }
     }
   };
 
-  const appendLog = (level, args) => {
+  const installMenu = (win) => {
+    if (!menuPlan || typeof nwApi.Menu !== 'function') return;
     try {
-      fs.mkdirSync(pathMod.dirname(__appLogPath), { recursive: true });
-      const text = args.map((arg) => safeStringify(arg)).join(' ');
-      const line = '[' + new Date().toISOString() + '] [' + level + '] ' + text + '\\\\n';
-      fs.appendFileSync(__appLogPath, line);
-      const stat = fs.statSync(__appLogPath);
-      if (stat.size > MAX_BYTES) {
-        const all = fs.readFileSync(__appLogPath, 'utf-8');
-        const tail = all.slice(Math.floor(all.length / 2));
-        fs.writeFileSync(__appLogPath, '[windowd] app.log truncated due to size\\\\n' + tail, 'utf-8');
+      const menubar = new nwApi.Menu({ type: 'menubar' });
+      if (menuPlan.macBuiltin) {
+        menubar.createMacBuiltin(menuPlan.macBuiltin.appName, { hideEdit: menuPlan.macBuiltin.hideEdit });
       }
-    } catch {}
+      // On macOS the app's own menus go right after the app menu.
+      let at = menuPlan.macBuiltin ? 1 : menubar.items.length;
+      for (const def of menuPlan.items) menubar.insert(buildMenuItem(def, 'windowd:menu'), at++);
+      win.menu = menubar;
+    } catch (err) {
+      appendAppLog('menu setup failed: ' + err);
+    }
   };
 
-  for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
-    const original = typeof console[level] === 'function' ? console[level].bind(console) : null;
-    console[level] = (...args) => {
-      appendLog(level, args);
-      if (original) original(...args);
-    };
-  }
-
-  addEventListener('error', (event) => {
-    appendLog('error', [event.message || 'window error']);
-  });
-  addEventListener('unhandledrejection', (event) => {
-    appendLog('error', [String(event.reason || event)]);
-  });
+  // Held here so the tray icon isn't garbage collected.
+  let tray = null;
+  let mainHidden = false;
 
-  appendLog('info', ['[windowd] preload console hook installed']);
-})();
-`;
-}
+  const showMainWindow = (win) => {
+    mainHidden = false;
+    win.show();
+    win.focus();
+  };
 
-function buildNodeMainJs(
-  closeSignalUrl: string,
-  iconPath: string | null,
-  captureDir: string | null,
-  appLogPath: string | null,
-): string {
-  return `
-(() => {
-  const closeSignalUrl = ${JSON.stringify(closeSignalUrl)};
-  const iconPath = ${JSON.stringify(iconPath)};
-  const __captureDir = ${JSON.stringify(captureDir)};
-  const __appLogPath = ${JSON.stringify(appLogPath)};
-  const fs = require('fs');
-  const pathMod = require('path');
-  const appendAppLog = (line) => {
-    if (!__appLogPath) return;
+  const installTray = (win) => {
+    if (!trayPlan || typeof nwApi.Tray !== 'function') return;
     try {
-      fs.mkdirSync(pathMod.dirname(__appLogPath), { recursive: true });
-      fs.appendFileSync(__appLogPath, line + '\\n');
-    } catch {}
+      tray = new nwApi.Tray({ tooltip: trayPlan.tooltip, icon: pathMod.join(__dirname, trayPlan.iconFile) });
+      const menu = new nwApi.Menu();
+      for (const def of trayPlan.menu) menu.append(buildMenuItem(def, 'windowd:tray'));
+      tray.menu = menu;
+      tray.on('click', () => {
+        if (mainHidden) return showMainWindow(win);
+        if (!trayPlan.toggleOnClick) return;
+        mainHidden = true;
+        win.hide();
+      });
+    } catch (err) {
+      appendAppLog('tray setup failed: ' + err);
+    }
   };
-  const signalClose = () => {
+
+  // windowd repl: each NDJSON line from a client is evaluated in the main window's page
+  // context and answered with the result formatted by util.inspect.
+  const util = require('util');
+
+  const isThenable = (value) => !!value && (typeof value === 'object' || typeof value === 'function')
+    && typeof value.then === 'function';
+
+  // Top-level await is a syntax error in eval, so such input is retried as an async function
+  // body, first as an expression and then as statements. Its promise is ours, not the user's.
+  const evalInPage = (win, code) => {
     try {
-      const http = require('http');
-      const req = http.request(closeSignalUrl, { method: 'POST' });
-      req.on('error', () => {});
-      req.end('closed');
-    } catch {}
+      return { value: win.window.eval(code), wrapped: false };
+    } catch (err) {
+      if (!err || err.name !== 'SyntaxError' || !/\\bawait\\b/.test(code)) throw err;
+      try {
+        return { value: win.window.eval('(async () => (' + code + '\\n))()'), wrapped: true };
+      } catch {
+        return { value: win.window.eval('(async () => {' + code + '\\n})()'), wrapped: true };
+      }
+    }
   };
 
-  const nwApi = typeof globalThis.nw !== 'undefined' ? globalThis.nw : null;
-  if (!nwApi || !nwApi.Window || !nwApi.Window.get) {
-    console.warn('[windowd] NW API unavailable in node-main.');
-    appendAppLog('NW API unavailable in node-main');
-    return;
-  }
-  appendAppLog('node-main started');
+  // Drops the frames below the user's code: the eval call and the socket plumbing in this file.
+  const trimReplStack = (stack) => {
+    const lines = stack.split('\\n');
+    let cut = lines.findIndex((line, i) => i > 0 && line.includes(__filename) && !line.includes('eval at'));
+    if (cut === -1) return stack;
+    if (/^\\s*at (\\w+\\.)?eval \\(<anonymous>\\)$/.test(lines[cut - 1])) cut--;
+    return lines.slice(0, cut).join('\\n');
+  };
 
-  const waitForWindow = (timeoutMs = 15000) => new Promise((resolve, reject) => {
-    const started = Date.now();
-    const tick = () => {
+  const handleReplLine = (socket, line) => {
+    let request;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      return;
+    }
+    const reply = (body) => {
       try {
-        const win = nwApi.Window.get();
-        if (win) return resolve(win);
+        socket.write(JSON.stringify({ id: request.id, ...body }) + '\\n');
       } catch {}
-      if (Date.now() - started > timeoutMs) {
-        reject(new Error('No current window after waiting'));
-        return;
+    };
+    // DOM nodes would print their whole internal object graph; their markup says more.
+    const inspect = (value) => {
+      if (value && typeof value === 'object' && typeof value.nodeType === 'number' && typeof value.nodeName === 'string') {
+        const markup = typeof value.outerHTML === 'string' ? value.outerHTML : value.nodeName;
+        return markup.length > 500 ? markup.slice(0, 500) + '...' : markup;
       }
-      setTimeout(tick, 100);
+      return util.inspect(value, { colors: !!request.colors, depth: 2 });
     };
-    tick();
-  });
-
-  const installHandlers = (win) => {
-    if (iconPath && typeof win.setIcon === 'function') {
-      try { win.setIcon(iconPath); } catch {}
+    const describeError = (err) => err && typeof err.stack === 'string' ? trimReplStack(err.stack) : inspect(err);
+    if (!mainWindow) return reply({ error: 'the window is still starting' });
+    try {
+      const { value, wrapped } = evalInPage(mainWindow, String(request.code));
+      if (!isThenable(value)) return reply({ output: inspect(value) });
+      // Handlers go on right away so the page never reports the rejection as unhandled.
+      if (wrapped) {
+        value.then((result) => reply({ output: inspect(result) }), (err) => reply({ error: 'Uncaught ' + describeError(err) }));
+        return;
+      }
+      // The user's own promises print their state once queued callbacks have run, the way node
+      // shows them; one that is still pending is answered at once rather than waited for.
+      let answered = false;
+      const answer = (output) => {
+        if (answered) return;
+        answered = true;
+        reply({ output });
+      };
+      value.then(
+        (result) => answer('Promise { ' + inspect(result) + ' }'),
+        (err) => answer('Promise { <rejected> ' + describeError(err) + ' }'),
+      );
+      setTimeout(() => answer('Promise { <pending> }'), 0);
+    } catch (err) {
+      reply({ error: 'Uncaught ' + describeError(err) });
     }
+  };
 
-    const openDevTools = () => {
+  const startReplServer = () => {
+    if (!replSocket) return;
+    const net = require('net');
+    // A window that crashed leaves its socket file behind, which would fail the listen.
+    if (process.platform !== 'win32') {
       try {
-        if (typeof win.showDevTools !== 'function') {
-          console.warn('[windowd] DevTools unavailable, ensure NW.js SDK build is installed.');
-          try { alert('[windowd] DevTools unavailable in this NW runtime.'); } catch {}
-          return;
+        fs.unlinkSync(replSocket);
+      } catch {}
+    }
+    const server = net.createServer((socket) => {
+      let buffered = '';
+      socket.setEncoding('utf8');
+      socket.on('data', (chunk) => {
+        buffered += chunk;
+        let newline;
+        while ((newline = buffered.indexOf('\\n')) !== -1) {
+          const line = buffered.slice(0, newline);
+          buffered = buffered.slice(newline + 1);
+          if (line.trim()) handleReplLine(socket, line);
         }
-        const devtoolsWin = win.showDevTools();
-        if (devtoolsWin && typeof devtoolsWin.focus === 'function') {
-          devtoolsWin.focus();
+      });
+      socket.on('error', () => {});
+    });
+    server.on('error', (err) => appendAppLog('repl socket unavailable: ' + err));
+    server.listen(replSocket, () => {
+      if (process.platform === 'win32') return;
+      try {
+        fs.chmodSync(replSocket, 0o600);
+      } catch {}
+    });
+  };
+
+  startReplServer();
+
+  // nw.nodeMain: the app's own main-process script. It starts once, with the main window, and
+  // lives as long as node-main does, so page reloads leave it running.
+  const startUserMain = (win) => {
+    if (!userMainFile) return;
+    const report = (err) => {
+      console.error('[windowd] nw.nodeMain failed:', err);
+      appendAppLog('nw.nodeMain failed: ' + ((err && err.stack) || err));
+    };
+    const context = {
+      window: win,
+      projectDir,
+      send: (channel, data) => {
+        for (const target of openWindows) {
+          try {
+            const page = target.window;
+            page.dispatchEvent(new page.CustomEvent('windowd:message', { detail: { channel, data } }));
+          } catch {}
         }
-      } catch (error) {
-        console.error('[windowd] Failed to open DevTools', error);
-        try { alert('[windowd] Failed to open DevTools.'); } catch {}
+      },
+    };
+    try {
+      const exported = require(pathMod.join(__dirname, userMainFile));
+      const main = typeof exported === 'function' ? exported : exported && exported.default;
+      if (typeof main !== 'function') {
+        report(new Error('expected a default export function (context) => void'));
+        return;
       }
+      Promise.resolve(main(context)).catch(report);
+      appendAppLog('nw.nodeMain started');
+    } catch (err) {
+      report(err);
+    }
+  };
+
+  waitForWindow().then((win) => {
+    appendAppLog('window became available');
+    mainWindow = win;
+    let flushWindowState = null;
+    if (__windowState) {
+      restoreWindowState(win);
+      flushWindowState = trackWindowState(win);
+    }
+    installHandlers(win, true, flushWindowState);
+    installMenu(win);
+    // Capture runs are one-shot; a tray icon would only flash up and global shortcuts could
+    // steal keys from whatever else is running.
+    if (!__captureDir) {
+      installTray(win);
+      registerGlobalShortcuts();
+    }
+    startUserMain(win);
+
+    if (Object.keys(windowDefs).length > 0) {
+      if (win.window && win.window.document && win.window.document.readyState === 'complete') openSecondaryWindows(win);
+      else win.once('loaded', () => openSecondaryWindows(win));
+    }
+
+    if (!__captureDir) return;
+
+    // Resolves with the name of whatever fired first: the configured strategy or 'timeout'.
+    const NETWORK_IDLE_MS = 500;
+    const waitForReadiness = () => new Promise((resolve) => {
+      const started = Date.now();
+      const isReady = () => {
+        const w = win.window;
+        if (!w) return false;
+        switch (__captureWait.strategy) {
+          case 'delay':
+            return Date.now() - started >= __captureWait.delayMs;
+          case 'selector':
+            try {
+              return !!(w.document && w.document.querySelector(__captureWait.selector));
+            } catch {
+              return false;
+            }
+          case 'ready':
+            return w.__windowdReadyAt !== null && w.__windowdReadyAt !== undefined;
+          case 'network-idle': {
+            const net = w.__windowdNetwork;
+            return !!net && w.document && w.document.readyState === 'complete'
+              && net.inflight === 0 && Date.now() - net.lastActivity >= NETWORK_IDLE_MS;
+          }
+        }
+        return false;
+      };
+      const tick = () => {
+        if (isReady()) return resolve({ firedBy: __captureWait.strategy, elapsedMs: Date.now() - started });
+        if (Date.now() - started >= __captureWait.timeoutMs) {
+          return resolve({ firedBy: 'timeout', elapsedMs: Date.now() - started });
+        }
+        setTimeout(tick, 50);
+      };
+      tick();
+    });
+
+    const finishCapture = () => {
+      signalClose();
+      try { win.close(true); } catch {}
+      try { nwApi.App.quit(); } catch {}
+      try { process.exit(0); } catch {}
     };
 
-    const attachToDocument = () => {
-      const doc = win.window && win.window.document;
-      if (!doc) return;
-      appendAppLog('document available, attaching handlers');
+    const capturePng = () => capturePagePng(win);
 
-      win.window.addEventListener('keydown', (event) => {
-        const openByF12 = event.key === 'F12';
-        const openByShortcut = (event.ctrlKey || event.metaKey) && event.shiftKey && event.key.toLowerCase() === 'i';
-        if (openByF12 || openByShortcut) {
-          event.preventDefault();
-          openDevTools();
+    const describeReadiness = (readiness) => ({
+      strategy: __captureWait.strategy,
+      selector: __captureWait.selector,
+      firedBy: readiness.firedBy,
+      elapsedMs: readiness.elapsedMs,
+      timeoutMs: __captureWait.timeoutMs,
+    });
+
+    const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    // Resizes the window, then waits until the viewport and document size stop changing
+    // and one more frame has painted, so the capture shows the settled layout.
+    const LAYOUT_SETTLE_MS = 200;
+    const LAYOUT_SETTLE_TIMEOUT_MS = 3000;
+    const resizeAndSettle = async (size) => {
+      win.resizeTo(size.width, size.height);
+      const started = Date.now();
+      let last = '';
+      let stableSince = started;
+      while (Date.now() - started < LAYOUT_SETTLE_TIMEOUT_MS) {
+        await sleep(50);
+        const w = win.window;
+        const root = w && w.document && w.document.documentElement;
+        const layout = w ? [w.innerWidth, w.innerHeight, root ? root.scrollWidth : 0, root ? root.scrollHeight : 0].join('x') : '';
+        if (layout !== last) {
+          last = layout;
+          stableSince = Date.now();
+        } else if (Date.now() - stableSince >= LAYOUT_SETTLE_MS) {
+          break;
         }
-      });
+      }
+      await Promise.race([
+        new Promise((resolve) => win.window.requestAnimationFrame(() => win.window.requestAnimationFrame(resolve))),
+        sleep(100),
+      ]);
+    };
 
-      win.window.addEventListener('beforeunload', signalClose);
-      win.window.addEventListener('unload', signalClose);
+    // ─── DOM snapshot (dom.html + snapshot.json) ───
+
+    const SNAPSHOT_TEXT_LIMIT = 200;
+    const INTERACTIVE_ROLES = new Set([
+      'link', 'button', 'checkbox', 'radio', 'textbox', 'searchbox', 'combobox', 'listbox', 'option', 'slider',
+      'spinbutton', 'switch', 'tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'treeitem',
+    ]);
+    // Roles whose accessible name falls back to their rendered text; landmarks and lists only use labels.
+    const NAME_FROM_CONTENT_ROLES = new Set([
+      'link', 'button', 'checkbox', 'radio', 'option', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+      'menuitemradio', 'treeitem', 'listitem',
+    ]);
+
+    const clip = (text) => {
+      const trimmed = String(text || '').replace(/\\s+/g, ' ').trim();
+      return trimmed.length > SNAPSHOT_TEXT_LIMIT ? trimmed.slice(0, SNAPSHOT_TEXT_LIMIT) + '...' : trimmed;
     };
 
-    if (win.window && win.window.document) {
-      attachToDocument();
-    } else {
-      win.on('loaded', attachToDocument);
-    }
+    const isVisible = (w, el) => {
+      if (el.closest('[hidden],[aria-hidden="true"]')) return false;
+      const style = w.getComputedStyle(el);
+      if (style.display === 'none' || style.visibility === 'hidden') return false;
+      return el.getClientRects().length > 0 || style.display === 'contents';
+    };
 
-    win.on('close', function() {
-      signalClose();
-      try {
-        this.close(true);
-      } catch {}
-      try {
-        nwApi.App.quit();
-      } catch {}
+    const describeElement = ${describeSnapshotElement};
+    const roleOf = ${snapshotRoleOf};
+
+    const renderedText = (el) => typeof el.innerText === 'string' ? el.innerText : el.textContent;
+
+    const accessibleName = (doc, el, role) => {
+      const label = el.getAttribute('aria-label');
+      if (label && label.trim()) return clip(label);
+      const labelledBy = el.getAttribute('aria-labelledby');
+      if (labelledBy) {
+        const text = labelledBy.split(/\\s+/).map((id) => {
+          const ref = doc.getElementById(id);
+          return ref ? renderedText(ref) : '';
+        }).join(' ');
+        if (text.trim()) return clip(text);
+      }
+      if (el.labels && el.labels.length) return clip(Array.from(el.labels).map((l) => l.textContent).join(' '));
+      if (el.tagName === 'INPUT' && /^(button|submit|reset)$/i.test(el.type)) return clip(el.value);
+      if (el.tagName === 'IMG' || el.tagName === 'INPUT') {
+        const alt = el.getAttribute('alt');
+        if (alt) return clip(alt);
+      }
+      const fromContent = NAME_FROM_CONTENT_ROLES.has(role) && !/^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName);
+      const text = fromContent ? clip(renderedText(el)) : '';
+      return text || clip(el.getAttribute('title') || el.getAttribute('placeholder') || '');
+    };
+
+    const describeState = (el) => {
+      const state = {};
+      if (el.disabled || el.getAttribute('aria-disabled') === 'true') state.disabled = true;
+      if (el.type === 'checkbox' || el.type === 'radio') state.checked = !!el.checked;
+      else if (el.hasAttribute('aria-checked')) state.checked = el.getAttribute('aria-checked');
+      if (el.hasAttribute('aria-expanded')) state.expanded = el.getAttribute('aria-expanded') === 'true';
+      if (el.hasAttribute('aria-selected')) state.selected = el.getAttribute('aria-selected') === 'true';
+      else if (el.tagName === 'OPTION') state.selected = !!el.selected;
+      if (/^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName) && el.type !== 'checkbox' && el.type !== 'radio') {
+        state.value = clip(el.value);
+      }
+      return state;
+    };
+
+    // Interactive elements keep their landmark/list ancestors so the tree shows where they live;
+    // containers without anything interactive inside are dropped.
+    const buildRoleTree = (w, el) => {
+      const children = [];
+      for (const child of Array.from(el.children)) {
+        if (!isVisible(w, child)) continue;
+        children.push(...buildRoleTree(w, child));
+      }
+      const role = roleOf(el);
+      if (!role || role === 'none' || role === 'presentation') return children;
+      if (!INTERACTIVE_ROLES.has(role) && children.length === 0) return [];
+
+      const node = { role };
+      const name = accessibleName(w.document, el, role);
+      if (name) node.name = name;
+      node.element = describeElement(el);
+      const state = describeState(el);
+      if (Object.keys(state).length) node.state = state;
+      if (children.length) node.children = children;
+      return [node];
+    };
+
+    const collectText = (w, doc) => {
+      const text = [];
+      const walk = (el) => {
+        if (/^(SCRIPT|STYLE|NOSCRIPT|TEMPLATE)$/.test(el.tagName) || !isVisible(w, el)) return;
+        const own = Array.from(el.childNodes)
+          .filter((node) => node.nodeType === 3)
+          .map((node) => node.textContent)
+          .join(' ');
+        if (own.trim()) text.push({ element: describeElement(el), text: clip(own) });
+        for (const child of Array.from(el.children)) walk(child);
+      };
+      if (doc.body) walk(doc.body);
+      return text;
+    };
+
+    const collectHeadings = (w, doc) => Array.from(doc.querySelectorAll('h1,h2,h3,h4,h5,h6,[role=heading]'))
+      .filter((el) => isVisible(w, el))
+      .map((el) => {
+        const level = /^H[1-6]$/.test(el.tagName)
+          ? Number(el.tagName[1])
+          : Number(el.getAttribute('aria-level')) || 2;
+        const heading = { level, text: clip(renderedText(el)) };
+        if (el.id) heading.id = el.id;
+        return heading;
+      });
+
+    const writeDomSnapshot = () => {
+      const w = win.window;
+      const doc = w && w.document;
+      if (!doc || !doc.documentElement) return;
       try {
-        process.exit(0);
-      } catch {}
-    });
-  };
+        const doctype = doc.doctype ? '<!DOCTYPE ' + doc.doctype.name + '>\\n' : '';
+        fs.writeFileSync(pathMod.join(__captureDir, 'dom.html'), doctype + doc.documentElement.outerHTML);
+        fs.writeFileSync(pathMod.join(__captureDir, 'snapshot.json'), JSON.stringify({
+          title: doc.title,
+          url: (w.location && w.location.href) || '',
+          text: collectText(w, doc),
+          headings: collectHeadings(w, doc),
+          accessibility: doc.body ? buildRoleTree(w, doc.body) : [],
+        }, null, 2));
+        appendAppLog('dom snapshot written');
+      } catch (err) {
+        appendAppLog('dom snapshot failed: ' + err);
+      }
+    };
 
-  if (nwApi.App && typeof nwApi.App.on === 'function') {
-    nwApi.App.on('window-all-closed', () => {
-      signalClose();
+    const captureScreenshot = async (readiness) => {
+      const doc = win.window && win.window.document;
+      const title = doc ? doc.title : '';
+      // Snapshot before any resize so text and roles match the configured window size.
+      writeDomSnapshot();
       try {
-        nwApi.App.quit();
-      } catch {}
+        const screenshots = [];
+        if (__captureSizes) {
+          for (const size of __captureSizes) {
+            await resizeAndSettle(size);
+            fs.writeFileSync(pathMod.join(__captureDir, size.file), await capturePng());
+            appendAppLog('captured ' + size.file);
+            screenshots.push({
+              file: size.file,
+              width: size.width,
+              height: size.height,
+              viewport: { width: win.window.innerWidth, height: win.window.innerHeight },
+            });
+          }
+        } else {
+          fs.writeFileSync(pathMod.join(__captureDir, 'screenshot.png'), await capturePng());
+          appendAppLog('capturePage callback received');
+        }
+        const errors = (win.window && win.window.__windowdErrors) || [];
+        fs.writeFileSync(pathMod.join(__captureDir, 'result.json'), JSON.stringify({
+          title,
+          url: (win.window && win.window.location && win.window.location.href) || '',
+          consoleErrors: errors.filter((error) => error.source === 'renderer').map((error) => error.message),
+          errors,
+          readiness: describeReadiness(readiness),
+          ...(__captureSizes ? { screenshots } : {}),
+          capturedAt: new Date().toISOString(),
+        }, null, 2));
+      } catch (err) {
+        appendAppLog('capture failed: ' + err);
+      }
+      finishCapture();
+    };
+
+    // ─── step scripts (windowd run-script) ───
+
+    const findElement = async (selector, timeoutMs) => {
+      const started = Date.now();
+      while (true) {
+        const doc = win.window && win.window.document;
+        const el = doc ? doc.querySelector(selector) : null;
+        if (el) return el;
+        if (Date.now() - started >= timeoutMs) throw new Error('no element matches ' + selector + ' after ' + timeoutMs + 'ms');
+        await sleep(50);
+      }
+    };
+
+    const typeInto = (el, text) => {
+      const w = win.window;
+      el.focus();
+      if (el.isContentEditable) {
+        w.document.execCommand('insertText', false, text);
+        return;
+      }
+      // Go through the native value setter so frameworks like React see the change.
+      const proto = Object.getPrototypeOf(el);
+      const descriptor = Object.getOwnPropertyDescriptor(proto, 'value');
+      const next = (el.value || '') + text;
+      if (descriptor && descriptor.set) descriptor.set.call(el, next);
+      else el.value = next;
+      el.dispatchEvent(new w.Event('input', { bubbles: true }));
+      el.dispatchEvent(new w.Event('change', { bubbles: true }));
+    };
+
+    const pressKey = (target, key) => {
+      const w = win.window;
+      for (const type of ['keydown', 'keypress', 'keyup']) {
+        target.dispatchEvent(new w.KeyboardEvent(type, { key, bubbles: true, cancelable: true }));
+      }
+    };
+
+    const toJsonSafe = (value) => {
+      if (value === undefined) return null;
       try {
-        process.exit(0);
-      } catch {}
-    });
-  }
+        return JSON.parse(JSON.stringify(value));
+      } catch {
+        return String(value);
+      }
+    };
 
-  waitForWindow().then((win) => {
-    appendAppLog('window became available');
-    installHandlers(win);
+    const runStep = async (step, index) => {
+      const timeoutMs = step.timeout || ${DEFAULT_STEP_TIMEOUT_MS};
+      switch (step.action) {
+        case 'click': {
+          const el = await findElement(step.selector, timeoutMs);
+          if (typeof el.scrollIntoView === 'function') el.scrollIntoView({ block: 'center' });
+          if (typeof el.focus === 'function') el.focus();
+          el.click();
+          return {};
+        }
+        case 'type':
+          typeInto(await findElement(step.selector, timeoutMs), step.text);
+          return {};
+        case 'press': {
+          const doc = win.window.document;
+          const target = step.selector ? await findElement(step.selector, timeoutMs) : (doc.activeElement || doc.body);
+          pressKey(target, step.key);
+          return {};
+        }
+        case 'waitFor':
+          await findElement(step.selector, timeoutMs);
+          return {};
+        case 'evaluate': {
+          const value = await win.window.eval(step.expression);
+          return { value: toJsonSafe(value) };
+        }
+        case 'screenshot': {
+          // Let pending renders land before grabbing pixels.
+          await sleep(50);
+          const file = String(index + 1).padStart(2, '0') + '-' + step.name.replace(/[^a-zA-Z0-9._-]+/g, '-') + '.png';
+          fs.writeFileSync(pathMod.join(__captureDir, file), await capturePng());
+          return { screenshot: file };
+        }
+      }
+      throw new Error('unknown action ' + step.action);
+    };
+
+    const runSteps = async (readiness) => {
+      const log = { status: 'passed', readiness: describeReadiness(readiness), steps: [] };
+      const writeLog = () => {
+        try {
+          fs.writeFileSync(pathMod.join(__captureDir, 'steps.json'), JSON.stringify(log, null, 2));
+        } catch (err) {
+          appendAppLog('step log write failed: ' + err);
+        }
+      };
+
+      for (let i = 0; i < __steps.length; i++) {
+        const step = __steps[i];
+        const started = Date.now();
+        try {
+          const extra = await runStep(step, i);
+          log.steps.push({ index: i + 1, action: step.action, label: step.label, status: 'ok', elapsedMs: Date.now() - started, ...extra });
+          appendAppLog(step.label + ' ok');
+        } catch (err) {
+          const message = (err && err.message) || String(err);
+          const entry = { index: i + 1, action: step.action, label: step.label, status: 'failed', elapsedMs: Date.now() - started, error: message };
+          try {
+            const file = String(i + 1).padStart(2, '0') + '-failed.png';
+            fs.writeFileSync(pathMod.join(__captureDir, file), await capturePng());
+            entry.screenshot = file;
+          } catch {}
+          log.steps.push(entry);
+          log.status = 'failed';
+          log.failedStep = { index: i + 1, label: step.label, error: message };
+          appendAppLog(step.label + ' failed: ' + message);
+          break;
+        }
+      }
+
+      writeLog();
+      finishCapture();
+    };
 
-    if (!__captureDir) return;
-    const captureErrors = [];
     const startCapture = () => {
       appendAppLog('capture requested');
       try {
         fs.mkdirSync(__captureDir, { recursive: true });
       } catch {}
-      setTimeout(() => {
-        const doc = win.window && win.window.document;
-        const title = doc ? doc.title : '';
-        if (win.window) {
-          win.window.addEventListener('error', (e) => captureErrors.push(e.message || String(e)));
-          win.window.addEventListener('unhandledrejection', (e) => captureErrors.push(String(e.reason || e)));
-        }
-        win.capturePage((buffer) => {
-          appendAppLog('capturePage callback received');
-          try {
-            fs.writeFileSync(pathMod.join(__captureDir, 'screenshot.png'), buffer);
-            fs.writeFileSync(pathMod.join(__captureDir, 'result.json'), JSON.stringify({
-              title,
-              url: (win.window && win.window.location && win.window.location.href) || '',
-              consoleErrors: captureErrors,
-              capturedAt: new Date().toISOString(),
-            }, null, 2));
-          } catch (err) {
-            appendAppLog('capture write failed: ' + err);
-          }
-          signalClose();
-          try { win.close(true); } catch {}
-          try { nwApi.App.quit(); } catch {}
-          try { process.exit(0); } catch {}
-        }, { format: 'png', datatype: 'buffer' });
-      }, 2000);
+      waitForReadiness().then((readiness) => {
+        appendAppLog('capture ready via ' + readiness.firedBy + ' after ' + readiness.elapsedMs + 'ms');
+        if (__steps) runSteps(readiness);
+        else captureScreenshot(readiness);
+      });
     };
 
     if (win.window && win.window.document) startCapture();
@@ -1015,33 +3530,173 @@ function stopSpinner(timer: ReturnType<typeof setInterval>, finalLine: string) {
   }
 }
 
-interface CloseSignalServer {
-  url: string;
-  closed: Promise<void>;
+interface ControlServer {
+  // What node-main connects to, token included.
+  hostUrl: string;
+  // Where node-main listens for windowd repl clients.
+  replSocket: string;
+  // Resolves once the open window reports it was closed; call again for each launch.
+  waitForClose: () => Promise<void>;
   stop: () => void;
 }
 
-async function createCloseSignalServer(): Promise<CloseSignalServer> {
+/**
+ * JSON-RPC over WebSocket between `windowd ctl` and the open window, bound to 127.0.0.1 and
+ * guarded by a per-session token. node-main connects on /host and runs the commands; ctl
+ * clients connect on /ctl and have their requests relayed to it. The session is advertised
+ * in SESSION_FILE for as long as the server runs.
+ */
+async function createControlServer(projectDir: string, appUrl: string): Promise<ControlServer> {
   const port = await getEphemeralPort();
-  let resolved = false;
-  let resolveClosed!: () => void;
-  const closed = new Promise<void>((resolve) => {
-    resolveClosed = () => {
-      if (resolved) return;
-      resolved = true;
-      resolve();
-    };
+  const token = randomBytes(16).toString('hex');
+  const server = new WebSocketServer({
+    host: '127.0.0.1',
+    port,
+    verifyClient: ({ req }: { req: IncomingMessage }) => new URL(req.url ?? '/', 'http://127.0.0.1').searchParams.get('token') === token,
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.once('listening', () => resolve());
+  });
+
+  let host: WebSocket | null = null;
+  let nextId = 0;
+  // Requests relayed to the host, by the id they were sent under.
+  const pending = new Map<number, { client: WebSocket; id: number | string; timer: ReturnType<typeof setTimeout> }>();
+  let resolveClosed: (() => void) | null = null;
+
+  const send = (socket: WebSocket, message: JsonRpcResponse | JsonRpcRequest) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+  const settle = (hostId: number, response: Omit<JsonRpcResponse, 'jsonrpc' | 'id'>) => {
+    const entry = pending.get(hostId);
+    if (!entry) return;
+    pending.delete(hostId);
+    clearTimeout(entry.timer);
+    send(entry.client, { jsonrpc: '2.0', id: entry.id, ...response });
+  };
+
+  const onHostMessage = (message: Record<string, unknown>) => {
+    if (message.method === 'closed') {
+      resolveClosed?.();
+      return;
+    }
+    if (typeof message.id !== 'number') return;
+    settle(message.id, message.error ? { error: message.error as JsonRpcError } : { result: message.result ?? null });
+  };
+
+  const onClientMessage = (client: WebSocket, message: Record<string, unknown>) => {
+    const id = typeof message.id === 'number' || typeof message.id === 'string' ? message.id : null;
+    if (message.jsonrpc !== '2.0' || typeof message.method !== 'string' || id === null) {
+      send(client, rpcError(id, RPC_INVALID_REQUEST, 'expected a JSON-RPC 2.0 request with an id'));
+      return;
+    }
+    if (!isControlMethod(message.method)) {
+      send(client, rpcError(id, RPC_METHOD_NOT_FOUND, `unknown method "${message.method}" (expected ${CONTROL_METHODS.join(', ')})`));
+      return;
+    }
+    if (!host || host.readyState !== WebSocket.OPEN) {
+      send(client, rpcError(id, RPC_NO_WINDOW, 'no window is open right now'));
+      return;
+    }
+    const hostId = ++nextId;
+    const timer = setTimeout(() => {
+      settle(hostId, { error: { code: RPC_NO_WINDOW, message: `window did not answer within ${CONTROL_REQUEST_TIMEOUT_MS}ms` } });
+    }, CONTROL_REQUEST_TIMEOUT_MS);
+    pending.set(hostId, { client, id, timer });
+    send(host, { jsonrpc: '2.0', id: hostId, method: message.method, params: (message.params ?? {}) as Record<string, unknown> });
+  };
+
+  server.on('connection', (socket: WebSocket, req: IncomingMessage) => {
+    const role = new URL(req.url ?? '/', 'http://127.0.0.1').pathname;
+    socket.on('message', (data: RawData) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(String(data));
+      } catch {
+        if (role === '/ctl') send(socket, rpcError(null, RPC_PARSE_ERROR, 'invalid JSON'));
+        return;
+      }
+      if (typeof message !== 'object' || message === null) return;
+      if (role === '/host' && socket === host) onHostMessage(message as Record<string, unknown>);
+      else if (role === '/ctl') onClientMessage(socket, message as Record<string, unknown>);
+    });
+
+    if (role === '/host') {
+      // A relaunched window replaces the previous connection.
+      host?.terminate();
+      host = socket;
+      socket.on('close', () => {
+        if (host !== socket) return;
+        host = null;
+        for (const hostId of [...pending.keys()]) {
+          settle(hostId, { error: { code: RPC_NO_WINDOW, message: 'the window closed before answering' } });
+        }
+      });
+    } else if (role !== '/ctl') {
+      socket.close(1008, 'unknown endpoint');
+    }
   });
 
-  const server = createNetServer((socket) => {
-    socket.once('data', () => {
-      resolveClosed();
+  const sessionPath = join(projectDir, SESSION_FILE);
+  const replSocket = replSocketPath(token);
+  const session: SessionState = { pid: process.pid, port, token, url: appUrl, startedAt: new Date().toISOString(), repl: replSocket };
+  try {
+    mkdirSync(dirname(sessionPath), { recursive: true });
+    writeFileSync(sessionPath, JSON.stringify(session, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  } catch (error) {
+    console.warn(`  could not write ${sessionPath}, windowd ctl will not find this session: ${String(error)}`);
+  }
+
+  return {
+    hostUrl: `ws://127.0.0.1:${port}/host?token=${token}`,
+    replSocket,
+    waitForClose: () => new Promise<void>((resolve) => { resolveClosed = resolve; }),
+    stop: () => {
+      // Another session may have taken the file over since; only remove our own.
       try {
-        socket.write('HTTP/1.1 204 No Content\\r\\nContent-Length: 0\\r\\nConnection: close\\r\\n\\r\\n');
+        const current: unknown = JSON.parse(readFileSync(sessionPath, 'utf-8'));
+        if (isSessionState(current) && current.pid === process.pid && current.token === token) rmSync(sessionPath, { force: true });
       } catch {
-        // ignore socket write errors
+        // already gone
+      }
+      // A window that crashed never got to remove its socket file.
+      if (process.platform !== 'win32') rmSync(replSocket, { force: true });
+      for (const client of server.clients) client.terminate();
+      server.close();
+    },
+  };
+}
+
+interface ConsoleServer {
+  url: string;
+  stop: () => void;
+}
+
+// Receives NDJSON console messages from the preload and prints them above the status line.
+// Repeats are counted until the renderer has been quiet for a moment.
+async function createConsoleServer(): Promise<ConsoleServer> {
+  const port = await getEphemeralPort();
+  const printer = createConsolePrinter({ write: printAboveStatus, color: IS_TTY });
+  let quietTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const server = createHttpServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => { body += chunk; });
+    req.on('end', () => {
+      for (const line of body.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const message: unknown = JSON.parse(line);
+          if (isConsoleMessage(message)) printer.print(message);
+        } catch {
+          // ignore malformed lines
+        }
       }
-      socket.end();
+      if (quietTimer) clearTimeout(quietTimer);
+      quietTimer = setTimeout(printer.flush, 500);
+      res.writeHead(204).end();
     });
   });
 
@@ -1051,9 +3706,10 @@ async function createCloseSignalServer(): Promise<CloseSignalServer> {
   });
 
   return {
-    url: `http://127.0.0.1:${port}/closed`,
-    closed,
+    url: `http://127.0.0.1:${port}/console`,
     stop: () => {
+      if (quietTimer) clearTimeout(quietTimer);
+      printer.flush();
       try {
         server.close();
       } catch {
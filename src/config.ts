@@ -0,0 +1,282 @@
+import { PROTECTED_MANIFEST_KEYS, MENU_ROLES, SHORTCUT_ACTIONS, type WindowThisConfig, type WindowThisConfigFn } from './lib.ts';
+import { findMenuProblems, parseAccelerator } from './menu.ts';
+
+// ─── schema ───────────────────────────────────────────────────────────────────
+
+type SchemaNode =
+  | { kind: 'string' | 'number' | 'boolean' | 'object' }
+  | { kind: 'enum'; values: readonly unknown[] }
+  | { kind: 'array'; items: SchemaNode }
+  | { kind: 'record'; values: SchemaNode }
+  | { kind: 'shape'; fields: Record<string, SchemaNode> }
+  | { kind: 'union'; options: SchemaNode[] }
+  | { kind: 'manifest' }
+  // nw.menu-style items; a menu bar's entries must be submenus and it may be `false`.
+  | { kind: 'menu'; bar: boolean }
+  // An accelerator string; a built-in action's binding may also be a list of them or `false`.
+  | { kind: 'shortcut'; action: boolean }
+  // A string used as one file name inside an output dir, so it may not leave that dir.
+  | { kind: 'fileName' };
+
+const str  = { kind: 'string' } as const;
+const num  = { kind: 'number' } as const;
+const bool = { kind: 'boolean' } as const;
+const obj  = { kind: 'object' } as const;
+
+const NW_WINDOW_SCHEMA: SchemaNode = {
+  kind: 'shape',
+  fields: {
+    id: str,
+    title: str,
+    width: num,
+    height: num,
+    toolbar: bool,
+    icon: str,
+    position: { kind: 'enum', values: ['center', 'mouse', null] },
+    min_width: num,
+    min_height: num,
+    max_width: num,
+    max_height: num,
+    as_desktop: bool,
+    resizable: bool,
+    always_on_top: bool,
+    visible_on_all_workspaces: bool,
+    fullscreen: bool,
+    show_in_taskbar: bool,
+    frame: bool,
+    show: bool,
+    kiosk: bool,
+    transparent: bool,
+  },
+};
+
+const WINDOW_DEFINITION_SCHEMA: SchemaNode = {
+  kind: 'shape',
+  fields: {
+    route: str,
+    html: str,
+    title: str,
+    width: num,
+    height: num,
+    frame: bool,
+    options: obj,
+  },
+};
+
+const MENU_ITEM_FIELDS: Record<string, SchemaNode> = {
+  label: str,
+  accelerator: str,
+  role: { kind: 'enum', values: MENU_ROLES },
+  id: str,
+  type: { kind: 'enum', values: ['normal', 'separator', 'checkbox'] },
+  enabled: bool,
+  checked: bool,
+};
+const MENU_ITEM_SCHEMA: SchemaNode = { kind: 'shape', fields: MENU_ITEM_FIELDS };
+MENU_ITEM_FIELDS.submenu = { kind: 'array', items: MENU_ITEM_SCHEMA };
+
+const SHORTCUTS_SCHEMA: SchemaNode = {
+  kind: 'shape',
+  fields: {
+    ...Object.fromEntries(SHORTCUT_ACTIONS.map(action => [action, { kind: 'shortcut', action: true } as const])),
+    global: { kind: 'record', values: { kind: 'shortcut', action: false } },
+  },
+};
+
+export const WINDOW_THIS_CONFIG_SCHEMA: SchemaNode = {
+  kind: 'shape',
+  fields: {
+    windows: { kind: 'record', values: WINDOW_DEFINITION_SCHEMA },
+    nw: {
+      kind: 'shape',
+      fields: {
+        window: NW_WINDOW_SCHEMA,
+        nodeRemote: { kind: 'union', options: [str, { kind: 'array', items: str }] },
+        chromiumArgs: str,
+        manifest: { kind: 'manifest' },
+        profile: { kind: 'union', options: [str, { kind: 'enum', values: [false] }] },
+        nodeMain: str,
+        menu: { kind: 'menu', bar: true },
+        tray: {
+          kind: 'shape',
+          fields: {
+            icon: str,
+            tooltip: str,
+            menu: { kind: 'menu', bar: false },
+            hideOnClose: bool,
+            toggleOnClick: bool,
+          },
+        },
+        shortcuts: SHORTCUTS_SCHEMA,
+      },
+    },
+    package: {
+      kind: 'shape',
+      fields: {
+        outDir: str,
+        executableName: { kind: 'fileName' },
+        archive: bool,
+      },
+    },
+  },
+};
+
+// ─── functions ────────────────────────────────────────────────────────────────
+
+export function defineConfig(config: WindowThisConfig): WindowThisConfig;
+export function defineConfig(config: WindowThisConfigFn): WindowThisConfigFn;
+export function defineConfig(config: WindowThisConfig | WindowThisConfigFn) {
+  return config;
+}
+
+/**
+ * Checks a loaded windowd config against the schema. Returns one `path: problem`
+ * line per issue, or an empty array when the config is valid.
+ */
+export function validateWindowThisConfig(config: unknown): string[] {
+  const problems: string[] = [];
+  validateNode(config, WINDOW_THIS_CONFIG_SCHEMA, '', problems);
+  return problems;
+}
+
+function validateNode(value: unknown, schema: SchemaNode, path: string, problems: string[]) {
+  const at = path || '(root)';
+
+  switch (schema.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== schema.kind) problems.push(`${at}: expected ${schema.kind}, got ${describe(value)}`);
+      return;
+
+    case 'object':
+      if (!isPlainObject(value)) problems.push(`${at}: expected object, got ${describe(value)}`);
+      return;
+
+    case 'enum':
+      if (!schema.values.includes(value)) {
+        problems.push(`${at}: expected one of ${schema.values.map(v => JSON.stringify(v)).join(', ')}`);
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        problems.push(`${at}: expected array, got ${describe(value)}`);
+        return;
+      }
+      value.forEach((item, i) => validateNode(item, schema.items, `${path}[${i}]`, problems));
+      return;
+
+    case 'union': {
+      const matches = schema.options.some((option) => {
+        const nested: string[] = [];
+        validateNode(value, option, path, nested);
+        return nested.length === 0;
+      });
+      if (!matches) problems.push(`${at}: expected ${schema.options.map(describeSchema).join(' or ')}, got ${describe(value)}`);
+      return;
+    }
+
+    case 'record':
+      if (!isPlainObject(value)) {
+        problems.push(`${at}: expected object, got ${describe(value)}`);
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        validateNode(item, schema.values, joinPath(path, key), problems);
+      }
+      return;
+
+    case 'shape':
+      if (!isPlainObject(value)) {
+        problems.push(`${at}: expected object, got ${describe(value)}`);
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const field = schema.fields[key];
+        if (!field) {
+          problems.push(`${joinPath(path, key)}: unknown key`);
+          continue;
+        }
+        if (item === undefined) continue;
+        validateNode(item, field, joinPath(path, key), problems);
+      }
+      return;
+
+    case 'manifest':
+      if (!isPlainObject(value)) {
+        problems.push(`${at}: expected object, got ${describe(value)}`);
+        return;
+      }
+      for (const key of Object.keys(value)) {
+        if (PROTECTED_MANIFEST_KEYS.has(key)) {
+          const hint = key === 'node-main' ? ' (use nw.nodeMain for your own main-process script)' : '';
+          problems.push(`${joinPath(path, key)}: protected manifest key, windowd sets it${hint}`);
+        }
+      }
+      return;
+
+    case 'menu': {
+      if (schema.bar && value === false) return;
+      if (!Array.isArray(value)) {
+        problems.push(`${at}: expected ${describeSchema(schema)}, got ${describe(value)}`);
+        return;
+      }
+      const shapeProblems: string[] = [];
+      validateNode(value, { kind: 'array', items: MENU_ITEM_SCHEMA }, path, shapeProblems);
+      // The menu rules only make sense once every item has the right shape.
+      problems.push(...(shapeProblems.length > 0 ? shapeProblems : findMenuProblems(value, path, schema.bar)));
+      return;
+    }
+
+    case 'fileName':
+      if (typeof value !== 'string') {
+        problems.push(`${at}: expected string, got ${describe(value)}`);
+      } else if (value === '' || value === '.' || value === '..' || /[\\/]/.test(value)) {
+        problems.push(`${at}: expected a file name without path separators, got "${value}"`);
+      }
+      return;
+
+    case 'shortcut': {
+      if (schema.action && value === false) return;
+      const accelerators = schema.action && Array.isArray(value) ? value : [value];
+      if (!accelerators.every(accelerator => typeof accelerator === 'string')) {
+        problems.push(`${at}: expected ${describeSchema(schema)}, got ${describe(value)}`);
+        return;
+      }
+      for (const accelerator of accelerators) {
+        try {
+          parseAccelerator(accelerator);
+        } catch (error) {
+          problems.push(`${at}: ${(error as Error).message}`);
+        }
+      }
+      return;
+    }
+  }
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function describeSchema(schema: SchemaNode): string {
+  if (schema.kind === 'array') return `${describeSchema(schema.items)}[]`;
+  if (schema.kind === 'shape' || schema.kind === 'record' || schema.kind === 'manifest') return 'object';
+  if (schema.kind === 'menu') return schema.bar ? 'object[] or false' : 'object[]';
+  if (schema.kind === 'shortcut') return schema.action ? 'string or string[] or false' : 'string';
+  if (schema.kind === 'fileName') return 'string';
+  if (schema.kind === 'union') return schema.options.map(describeSchema).join(' or ');
+  if (schema.kind === 'enum') return schema.values.map(v => JSON.stringify(v)).join(' or ');
+  return schema.kind;
+}
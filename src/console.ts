@@ -0,0 +1,93 @@
+// ─── interfaces ───────────────────────────────────────────────────────────────
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+// One renderer console call (or uncaught error) forwarded from the preload.
+export interface ConsoleMessage {
+  window: string;
+  level: ConsoleLevel;
+  text: string;
+}
+
+export interface ConsolePrinterOptions {
+  write: (line: string) => void;
+  color: boolean;
+}
+
+export interface ConsolePrinter {
+  print: (message: ConsoleMessage) => void;
+  // Reports repeats still being counted; call once a burst has gone quiet.
+  flush: () => void;
+}
+
+// ─── constants ────────────────────────────────────────────────────────────────
+
+const LEVEL_COLORS: Record<ConsoleLevel, string> = {
+  log: '',
+  info: '\x1b[36m',
+  warn: '\x1b[33m',
+  error: '\x1b[31m',
+  debug: '\x1b[90m',
+};
+
+const DIM = '\x1b[2m';
+const RESET = '\x1b[0m';
+
+// ─── functions ────────────────────────────────────────────────────────────────
+
+export function isConsoleMessage(value: unknown): value is ConsoleMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const message = value as Record<string, unknown>;
+  return typeof message.window === 'string'
+    && typeof message.text === 'string'
+    && typeof message.level === 'string'
+    && Object.hasOwn(LEVEL_COLORS, message.level);
+}
+
+/**
+ * Formats a message as terminal lines: `  [window] level message`, colored by level.
+ * Continuation lines (stack traces) are indented under the message.
+ */
+export function formatConsoleMessage(message: ConsoleMessage, color: boolean): string {
+  const paint = (code: string, text: string) => color && code ? `${code}${text}${RESET}` : text;
+  const prefix = `  ${paint(DIM, `[${message.window}]`)} ${paint(LEVEL_COLORS[message.level], message.level.padEnd(5))} `;
+  const indent = ' '.repeat(message.window.length + 11);
+  const [first, ...rest] = message.text.split('\n');
+  const body = [first, ...rest.map(line => indent + line)].join('\n');
+  return prefix + paint(LEVEL_COLORS[message.level], body);
+}
+
+/**
+ * Prints forwarded console messages, collapsing back-to-back repeats of the same
+ * message into one `repeated N times` line so a render loop cannot flood the terminal.
+ */
+export function createConsolePrinter({ write, color }: ConsolePrinterOptions): ConsolePrinter {
+  let last: ConsoleMessage | null = null;
+  let repeats = 0;
+
+  const reportRepeats = () => {
+    if (last && repeats > 0) {
+      const note = `[${last.window}] repeated ${repeats} more time${repeats === 1 ? '' : 's'}`;
+      write(`  ${color ? `${DIM}${note}${RESET}` : note}`);
+    }
+    repeats = 0;
+  };
+
+  const print = (message: ConsoleMessage) => {
+    if (last && last.window === message.window && last.level === message.level && last.text === message.text) {
+      repeats++;
+      return;
+    }
+    reportRepeats();
+    last = message;
+    write(formatConsoleMessage(message, color));
+  };
+
+  // After a quiet spell the same message prints again instead of counting as a repeat.
+  const flush = () => {
+    reportRepeats();
+    last = null;
+  };
+
+  return { print, flush };
+}
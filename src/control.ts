@@ -0,0 +1,106 @@
+// ─── interfaces ───────────────────────────────────────────────────────────────
+
+export type ControlMethod = typeof CONTROL_METHODS[number];
+
+// Written to SESSION_FILE while `windowd` runs so `windowd ctl` can find the control server.
+export interface SessionState {
+  pid: number;
+  port: number;
+  token: string;
+  url: string;
+  startedAt: string;
+  // Socket node-main listens on for `windowd repl` clients.
+  repl?: string;
+}
+
+export interface ControlCall {
+  method: ControlMethod;
+  params: Record<string, unknown>;
+}
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+// ─── constants ────────────────────────────────────────────────────────────────
+
+export const CONTROL_METHODS = ['reload', 'screenshot', 'eval', 'devtools', 'resize', 'focus', 'close'] as const;
+
+export const SESSION_FILE = '.windowd/session.json';
+
+// How long the window gets to answer a request (an eval awaiting a promise, say) before it fails.
+export const CONTROL_REQUEST_TIMEOUT_MS = 30000;
+
+// Standard JSON-RPC codes, plus one for "no window to run this against".
+export const RPC_PARSE_ERROR = -32700;
+export const RPC_INVALID_REQUEST = -32600;
+export const RPC_METHOD_NOT_FOUND = -32601;
+export const RPC_NO_WINDOW = -32000;
+
+// ─── functions ────────────────────────────────────────────────────────────────
+
+export function isControlMethod(value: string): value is ControlMethod {
+  return (CONTROL_METHODS as readonly string[]).includes(value);
+}
+
+/**
+ * Turns `windowd ctl <command> [args]` positionals into a control call. Relative
+ * screenshot paths are resolved by the caller, which knows the working directory.
+ */
+export function parseControlCommand(positionals: string[]): ControlCall {
+  const [command, ...rest] = positionals;
+  if (!command) throw new Error(`usage: windowd ctl <command> (${CONTROL_METHODS.join(', ')})`);
+  if (!isControlMethod(command)) {
+    throw new Error(`unknown ctl command "${command}" (expected ${CONTROL_METHODS.join(', ')})`);
+  }
+
+  switch (command) {
+    case 'screenshot':
+      return { method: command, params: { path: rest[0] ?? 'screenshot.png' } };
+    case 'eval': {
+      const code = rest.join(' ').trim();
+      if (!code) throw new Error('usage: windowd ctl eval <code>');
+      return { method: command, params: { code } };
+    }
+    case 'resize': {
+      const [width, height] = rest.length === 1 ? rest[0].split('x') : rest;
+      const size = { width: Number(width), height: Number(height) };
+      if (!Number.isInteger(size.width) || !Number.isInteger(size.height) || size.width <= 0 || size.height <= 0) {
+        throw new Error('usage: windowd ctl resize <width> <height> (or <width>x<height>)');
+      }
+      return { method: command, params: size };
+    }
+    default:
+      if (rest.length > 0) throw new Error(`ctl ${command} takes no arguments`);
+      return { method: command, params: {} };
+  }
+}
+
+export function isSessionState(value: unknown): value is SessionState {
+  if (typeof value !== 'object' || value === null) return false;
+  const state = value as Record<string, unknown>;
+  return typeof state.pid === 'number'
+    && typeof state.port === 'number'
+    && typeof state.token === 'string'
+    && typeof state.url === 'string';
+}
+
+export function rpcError(id: number | string | null, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } };
+}
@@ -0,0 +1,132 @@
+import type { RgbaImage } from './png.ts';
+
+// ─── interfaces ───────────────────────────────────────────────────────────────
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DiffOptions {
+  // Per-pixel color distance from 0 (exact) to 1 (anything goes) before a pixel counts as changed.
+  threshold: number;
+  ignoreRegions: Region[];
+}
+
+export interface DiffResult {
+  width: number;
+  height: number;
+  sizeMismatch: boolean;
+  diffPixels: number;
+  comparedPixels: number;
+  ignoredPixels: number;
+  mismatchRatio: number;
+  diff: RgbaImage;
+}
+
+// ─── constants ────────────────────────────────────────────────────────────────
+
+export const DEFAULT_DIFF_THRESHOLD = 0.1;
+
+// Largest possible YIQ delta between two colors, used to normalise the threshold.
+const MAX_YIQ_DELTA = 35215;
+
+// ─── functions ────────────────────────────────────────────────────────────────
+
+// Parses `x,y,width,height` into a region.
+export function parseRegion(value: string): Region {
+  const parts = value.split(',').map(part => Number(part.trim()));
+  if (parts.length !== 4 || parts.some(n => !Number.isInteger(n) || n < 0)) {
+    throw new Error(`invalid region "${value}" (expected x,y,width,height)`);
+  }
+  const [x, y, width, height] = parts;
+  return { x, y, width, height };
+}
+
+/**
+ * Compares a screenshot against its baseline pixel by pixel. Images of different sizes are
+ * compared over the larger of the two; pixels only one image has always count as changed.
+ * The diff image shows the baseline faded out, changes in red and ignored regions in blue.
+ */
+export function compareImages(actual: RgbaImage, baseline: RgbaImage, options: DiffOptions): DiffResult {
+  const width = Math.max(actual.width, baseline.width);
+  const height = Math.max(actual.height, baseline.height);
+  const sizeMismatch = actual.width !== baseline.width || actual.height !== baseline.height;
+  const maxDelta = MAX_YIQ_DELTA * options.threshold * options.threshold;
+  const diff = new Uint8Array(width * height * 4);
+
+  let diffPixels = 0;
+  let ignoredPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const inActual = x < actual.width && y < actual.height;
+      const inBaseline = x < baseline.width && y < baseline.height;
+      const a = inActual ? (y * actual.width + x) * 4 : -1;
+      const b = inBaseline ? (y * baseline.width + x) * 4 : -1;
+
+      if (options.ignoreRegions.some(region => inRegion(region, x, y))) {
+        ignoredPixels++;
+        setPixel(diff, out, 80, 120, 255);
+        continue;
+      }
+
+      if (!inActual || !inBaseline || colorDelta(actual.data, a, baseline.data, b) > maxDelta) {
+        diffPixels++;
+        setPixel(diff, out, 255, 0, 0);
+        continue;
+      }
+
+      const gray = 255 - 0.1 * (255 - luma(baseline.data, b));
+      setPixel(diff, out, gray, gray, gray);
+    }
+  }
+
+  const comparedPixels = width * height - ignoredPixels;
+  return {
+    width,
+    height,
+    sizeMismatch,
+    diffPixels,
+    comparedPixels,
+    ignoredPixels,
+    mismatchRatio: comparedPixels ? diffPixels / comparedPixels : 0,
+    diff: { width, height, data: diff },
+  };
+}
+
+function inRegion(region: Region, x: number, y: number): boolean {
+  return x >= region.x && x < region.x + region.width && y >= region.y && y < region.y + region.height;
+}
+
+function setPixel(data: Uint8Array, at: number, r: number, g: number, b: number) {
+  data[at] = r;
+  data[at + 1] = g;
+  data[at + 2] = b;
+  data[at + 3] = 255;
+}
+
+// Blends a pixel onto white so transparent areas compare the way they render.
+function blended(data: Uint8Array, at: number, channel: number): number {
+  const alpha = data[at + 3] / 255;
+  return 255 + (data[at + channel] - 255) * alpha;
+}
+
+function luma(data: Uint8Array, at: number): number {
+  return 0.29889531 * blended(data, at, 0) + 0.58662247 * blended(data, at, 1) + 0.11448223 * blended(data, at, 2);
+}
+
+// Perceptual color distance in YIQ space, weighted the way pixelmatch does it.
+function colorDelta(a: Uint8Array, i: number, b: Uint8Array, j: number): number {
+  const r1 = blended(a, i, 0), g1 = blended(a, i, 1), b1 = blended(a, i, 2);
+  const r2 = blended(b, j, 0), g2 = blended(b, j, 1), b2 = blended(b, j, 2);
+
+  const y = 0.29889531 * (r1 - r2) + 0.58662247 * (g1 - g2) + 0.11448223 * (b1 - b2);
+  const iq = 0.59597799 * (r1 - r2) - 0.2741761 * (g1 - g2) - 0.32180189 * (b1 - b2);
+  const q = 0.21147017 * (r1 - r2) - 0.52261711 * (g1 - g2) + 0.31114694 * (b1 - b2);
+
+  return 0.5053 * y * y + 0.299 * iq * iq + 0.1957 * q * q;
+}
@@ -0,0 +1,9 @@
+// Public entry point for `import { defineConfig } from 'windowd'` in windowd-config files.
+export { defineConfig } from './config.ts';
+export { defineSteps, click, type, press, waitFor, evaluate, screenshot } from './steps.ts';
+export type { Step } from './steps.ts';
+export type {
+  WindowThisConfig, WindowThisConfigFn, WindowThisConfigExport, WindowDefinition, NwWindowOptions, ConfigEnv,
+  NodeMainContext, NodeMainMessage, MenuItemDefinition, MenuRole, MenuEventDetail,
+  TrayDefinition, ShortcutAction, ShortcutsDefinition, ShortcutEventDetail,
+} from './lib.ts';
@@ -1,5 +1,8 @@
 import { existsSync, readFileSync, readdirSync, type Dirent } from 'node:fs';
-import { join, basename, extname } from 'node:path';
+import { homedir } from 'node:os';
+import { join, basename, extname, isAbsolute, resolve } from 'node:path';
+import { createHash } from 'node:crypto';
+import { parseRegion, DEFAULT_DIFF_THRESHOLD, type Region } from './diff.ts';
 
 // ─── constants ────────────────────────────────────────────────────────────────
 
@@ -30,9 +33,117 @@ export const REQUIRED_TSCONFIG_TYPES = ['node', 'vite/client', 'nw.js'];
 
 export const SUPPORTED_ICON_EXTS = new Set(['.png', '.ico', '.jpg', '.jpeg']);
 
+// Manifest keys windowd owns; nw.manifest cannot override these.
+export const PROTECTED_MANIFEST_KEYS = new Set(['main', 'node-main', 'name']);
+
+export const COMMANDS = ['dev', 'build', 'package', 'run-script', 'ctl', 'repl'] as const;
+
+export const DEFAULT_BUILD_DIR = 'dist';
+
+export const DEFAULT_PACKAGE_DIR = 'release';
+
+export const DEFAULT_RUN_SCRIPT_DIR = '.windowd/run-script';
+
+export const CAPTURE_WAIT_STRATEGIES = ['delay', 'selector', 'ready', 'network-idle'] as const;
+
+export const MENU_ROLES = [
+  'undo', 'redo', 'cut', 'copy', 'paste', 'selectAll', 'delete',
+  'reload', 'forceReload', 'toggleDevTools', 'toggleFullscreen', 'zoomIn', 'zoomOut', 'resetZoom',
+  'minimize', 'close', 'quit',
+] as const;
+
+// Built-in keymap actions node-main handles while a window has focus.
+export const SHORTCUT_ACTIONS = [
+  'devTools', 'reload', 'hardReload', 'zoomIn', 'zoomOut', 'resetZoom', 'toggleFullscreen', 'closeWindow',
+] as const;
+
+export const DEFAULT_CAPTURE_DELAY_MS = 2000;
+
+export const DEFAULT_CAPTURE_TIMEOUT_MS = 15000;
+
+// A window that crashes this many times in a row, each within NW_STABLE_RUN_MS of launching, is not relaunched again.
+export const NW_CRASH_LIMIT = 5;
+
+export const NW_STABLE_RUN_MS = 60000;
+
+// How long the Vite dev server gets to start answering requests.
+export const DEFAULT_STARTUP_TIMEOUT_MS = 30000;
+
+export const LOG_FORMATS = ['text', 'json'] as const;
+
+// app.log rolls over to app.log.1 once it passes this size; older files shift up to DEFAULT_LOG_MAX_FILES.
+export const DEFAULT_LOG_MAX_BYTES = 8 * 1024 * 1024;
+
+export const DEFAULT_LOG_MAX_FILES = 3;
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+// Fixed-name files a capture or run-script run writes into the capture dir.
+const CAPTURE_OUTPUT_FILES = new Set(['result.json', 'dom.html', 'snapshot.json', 'steps.json']);
+
+// Capture screenshots and their baseline diffs, e.g. screenshot.png or diff-800x600.png.
+const CAPTURE_SCREENSHOT_PATTERN = /^(?:screenshot|diff)(?:-.+)?\.png$/;
+
+// run-script step screenshots, e.g. 03-saved.png or 04-failed.png.
+const STEP_SCREENSHOT_PATTERN = /^\d{2,}-.+\.png$/;
+
+// Vite logs transform and compile failures as `[vite] Internal server error: ...` and friends.
+const VITE_ERROR_PATTERN = /\[vite\]\s+((?:Internal server error|Pre-transform error|error)\b.*)$/i;
+
 // ─── interfaces ───────────────────────────────────────────────────────────────
 
+export type Command = typeof COMMANDS[number];
+
+export type CaptureWaitStrategy = typeof CAPTURE_WAIT_STRATEGIES[number];
+
+export interface CaptureWait {
+  strategy: CaptureWaitStrategy;
+  selector?: string;
+  delayMs: number;
+  timeoutMs: number;
+}
+
+export type LogFormat = typeof LOG_FORMATS[number];
+
+export interface AppLogOptions {
+  path: string;
+  format: LogFormat;
+  maxBytes: number;
+  maxFiles: number;
+}
+
+// network.har recording for an artifacts dir. A bodyLimit of 0 leaves request/response bodies out.
+export interface HarOptions {
+  path: string;
+  bodyLimit: number;
+  includeVite: boolean;
+}
+
+// One error seen during a capture run, from the page itself or from the Vite dev server.
+export interface CaptureError {
+  source: 'renderer' | 'resource' | 'vite-overlay' | 'vite';
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  stack?: string;
+}
+
+export interface WindowSize {
+  width: number;
+  height: number;
+}
+
+export interface CaptureBaseline {
+  dir: string;
+  update: boolean;
+  threshold: number;
+  ignoreRegions: Region[];
+}
+
 export interface Args {
+  command: Command;
+  positionals: string[];
   width:   number;
   height:  number;
   title?:  string;
@@ -40,27 +151,193 @@ export interface Args {
   init:    boolean;
   version: boolean;
   help:    boolean;
+  explicitSize: boolean;
   capture?: string;
+  captureWait?: string;
+  captureWaitFor?: string;
+  captureDelay?: number;
+  captureTimeout?: number;
+  captureSizes?: string;
+  captureBaseline?: string;
+  updateBaseline: boolean;
+  failOnError: boolean;
+  baselineThreshold?: number;
+  baselineIgnore: string[];
   artifacts?: string;
+  logFormat?: string;
+  logMaxSize?: string;
+  logMaxFiles?: number;
+  harBodies?: string;
+  harIncludeVite: boolean;
+  quietConsole: boolean;
+  startupTimeout?: number;
+  mode?: string;
+  profile?: string;
+  freshProfile: boolean;
+}
+
+// Fields of the NW.js manifest `window` section.
+export interface NwWindowOptions {
+  id?: string;
+  title?: string;
+  width?: number;
+  height?: number;
+  toolbar?: boolean;
+  icon?: string;
+  position?: 'center' | 'mouse' | null;
+  min_width?: number;
+  min_height?: number;
+  max_width?: number;
+  max_height?: number;
+  as_desktop?: boolean;
+  resizable?: boolean;
+  always_on_top?: boolean;
+  visible_on_all_workspaces?: boolean;
+  fullscreen?: boolean;
+  show_in_taskbar?: boolean;
+  frame?: boolean;
+  show?: boolean;
+  kiosk?: boolean;
+  transparent?: boolean;
+}
+
+export type MenuRole = typeof MENU_ROLES[number];
+
+// One entry of nw.menu. Top-level entries are the menu bar's menus and need a submenu.
+export interface MenuItemDefinition {
+  label?: string;
+  // Electron-style shortcut, e.g. 'CmdOrCtrl+Shift+S'.
+  accelerator?: string;
+  // Built-in behavior, with a default label and accelerator.
+  role?: MenuRole;
+  // Dispatched to the renderer as a `windowd:menu` event when clicked.
+  id?: string;
+  type?: 'normal' | 'separator' | 'checkbox';
+  enabled?: boolean;
+  checked?: boolean;
+  submenu?: MenuItemDefinition[];
+}
+
+export interface TrayDefinition {
+  // Image for the tray icon, relative to the project; defaults to the app icon.
+  icon?: string;
+  // Defaults to the window title.
+  tooltip?: string;
+  // Items like nw.menu's; windowd adds a Quit item unless one has the quit role.
+  menu?: MenuItemDefinition[];
+  // The close button hides the main window instead of ending the session.
+  hideOnClose?: boolean;
+  // Clicking the icon also hides a showing main window; a hidden one is always shown.
+  toggleOnClick?: boolean;
+}
+
+// `detail` of the `windowd:menu` and `windowd:tray` events custom menu items dispatch.
+export interface MenuEventDetail {
+  id: string;
+  // Set for checkbox items, after the click toggled them.
+  checked?: boolean;
+}
+
+export type ShortcutAction = typeof SHORTCUT_ACTIONS[number];
+
+// Each built-in action takes an accelerator, a list of them, or false to turn it off.
+export interface ShortcutsDefinition extends Partial<Record<ShortcutAction, string | string[] | false>> {
+  // Registered with nw.Shortcut, so they fire even while the app is in the background.
+  // Keyed by the id of the `windowd:shortcut` event they dispatch, e.g. { 'show-notes': 'CmdOrCtrl+Shift+N' }.
+  global?: Record<string, string>;
+}
+
+// `detail` of the `windowd:shortcut` events global shortcuts dispatch.
+export interface ShortcutEventDetail {
+  id: string;
+}
+
+export interface WindowDefinition {
+  route?: string;
+  html?: string;
+  title?: string;
+  width?: number;
+  height?: number;
+  frame?: boolean;
+  options?: Record<string, unknown>;
+}
+
+// The parts of a DOM element the capture snapshot helpers read.
+export interface SnapshotElement {
+  tagName: string;
+  id: string;
+  isContentEditable?: boolean;
+  parentElement: SnapshotElement | null;
+  multiple?: boolean;
+  size?: number;
+  getAttribute(name: string): string | null;
+  hasAttribute(name: string): boolean;
+}
+
+// Passed to the default export of an nw.nodeMain script once the main window exists.
+export interface NodeMainContext {
+  window: nw.Window;
+  // The project in dev; the app's own folder in builds.
+  projectDir: string;
+  // Dispatches a `windowd:message` CustomEvent with `{ channel, data }` on every open window.
+  send: (channel: string, data?: unknown) => void;
+}
+
+// `detail` of the `windowd:message` events NodeMainContext.send dispatches.
+export interface NodeMainMessage {
+  channel: string;
+  data: unknown;
+}
+
+export interface ConfigEnv {
+  command: Command;
+  mode: string;
+  projectDir: string;
+  args: Args;
 }
 
 export interface WindowThisConfig {
+  windows?: Record<string, WindowDefinition>;
   nw?: {
-    window?: Record<string, unknown>;
+    window?: NwWindowOptions;
     nodeRemote?: string[] | string;
     chromiumArgs?: string;
     manifest?: Record<string, unknown>;
+    profile?: string | false;
+    // Script run in the NW.js main process, e.g. './main.ts'; default-exports (context) => void.
+    nodeMain?: string;
+    // Menu bar; false turns off windowd's default menus too.
+    menu?: MenuItemDefinition[] | false;
+    tray?: TrayDefinition;
+    shortcuts?: ShortcutsDefinition;
+  };
+  package?: {
+    outDir?: string;
+    executableName?: string;
+    archive?: boolean;
   };
 }
 
+export type WindowThisConfigFn = (env: ConfigEnv) => WindowThisConfig | Promise<WindowThisConfig>;
+
+export type WindowThisConfigExport = WindowThisConfig | WindowThisConfigFn;
+
 // ─── functions ────────────────────────────────────────────────────────────────
 
 export function parseArgs(argv = process.argv.slice(2)): Args {
   const result: Partial<Args> = {};
+  const positionals: string[] = [];
+  const baselineIgnore: string[] = [];
 
   for (let i = 0; i < argv.length; i++) {
     const arg = argv[i];
-    if      (arg === '--version' || arg === '-v')                      result.version = true;
+    // `--` ends the options, and so does a ctl command name: `ctl eval -1` is code, not a flag.
+    if (arg === '--' || (positionals.length === 2 && positionals[0] === 'ctl')) {
+      positionals.push(...argv.slice(arg === '--' ? i + 1 : i));
+      break;
+    }
+    if      (!arg.startsWith('-'))                                    positionals.push(arg);
+    else if (arg === '--version' || arg === '-v')                      result.version = true;
     else if (arg === '--help'    || arg === '-h')                      result.help    = true;
     else if (arg === '--debug'   || arg === '-d')                      result.debug   = true;
     else if (arg === '--init'    || arg === '-i')                      result.init    = true;
@@ -68,22 +345,310 @@ export function parseArgs(argv = process.argv.slice(2)): Args {
     else if ((arg === '--height' || arg === '-H') && argv[i + 1])     result.height  = parseInt(argv[++i], 10);
     else if ((arg === '--title'  || arg === '-t') && argv[i + 1])     result.title   = argv[++i];
     else if (arg === '--capture' && argv[i + 1])                      result.capture = argv[++i];
+    else if (arg === '--capture-wait' && argv[i + 1])                 result.captureWait = argv[++i];
+    else if (arg === '--capture-wait-for' && argv[i + 1])             result.captureWaitFor = argv[++i];
+    else if (arg === '--capture-delay' && argv[i + 1])                result.captureDelay = parseInt(argv[++i], 10);
+    else if (arg === '--capture-timeout' && argv[i + 1])              result.captureTimeout = parseInt(argv[++i], 10);
+    else if (arg === '--capture-sizes' && argv[i + 1])                result.captureSizes = argv[++i];
+    else if (arg === '--capture-baseline' && argv[i + 1])             result.captureBaseline = argv[++i];
+    else if (arg === '--update-baseline')                             result.updateBaseline = true;
+    else if (arg === '--fail-on-error')                               result.failOnError = true;
+    else if (arg === '--baseline-threshold' && argv[i + 1])           result.baselineThreshold = parseFloat(argv[++i]);
+    else if (arg === '--baseline-ignore' && argv[i + 1])              baselineIgnore.push(argv[++i]);
     else if (arg === '--artifacts' && argv[i + 1])                    result.artifacts = argv[++i];
+    else if (arg === '--log-format' && argv[i + 1])                   result.logFormat = argv[++i];
+    else if (arg === '--log-max-size' && argv[i + 1])                 result.logMaxSize = argv[++i];
+    else if (arg === '--log-max-files' && argv[i + 1])                result.logMaxFiles = parseInt(argv[++i], 10);
+    else if (arg === '--har-bodies' && argv[i + 1])                   result.harBodies = argv[++i];
+    else if (arg === '--har-include-vite')                            result.harIncludeVite = true;
+    else if (arg === '--quiet-console')                               result.quietConsole = true;
+    else if (arg === '--startup-timeout' && argv[i + 1])              result.startupTimeout = parseInt(argv[++i], 10);
+    else if ((arg === '--mode'   || arg === '-m') && argv[i + 1])     result.mode    = argv[++i];
+    else if (arg === '--profile' && argv[i + 1])                      result.profile = argv[++i];
+    else if (arg === '--fresh-profile')                               result.freshProfile = true;
   }
 
+  const command = positionals.length > 0 && isCommand(positionals[0]) ? positionals.shift() as Command : 'dev';
+
   return {
+    command,
+    positionals,
     width:   result.width   ?? 1280,
     height:  result.height  ?? 800,
     debug:   result.debug   ?? false,
     init:    result.init    ?? false,
     version: result.version ?? false,
     help:    result.help    ?? false,
+    explicitSize: result.width !== undefined || result.height !== undefined,
     title:   result.title,
-    capture: result.capture,
+    // run-script always writes its screenshots and step log somewhere.
+    capture: result.capture ?? (command === 'run-script' ? DEFAULT_RUN_SCRIPT_DIR : undefined),
+    captureWait: result.captureWait,
+    captureWaitFor: result.captureWaitFor,
+    captureDelay: result.captureDelay,
+    captureTimeout: result.captureTimeout,
+    captureSizes: result.captureSizes,
+    captureBaseline: result.captureBaseline,
+    updateBaseline: result.updateBaseline ?? false,
+    failOnError: result.failOnError ?? false,
+    baselineThreshold: result.baselineThreshold,
+    baselineIgnore,
     artifacts: result.artifacts,
+    logFormat: result.logFormat,
+    logMaxSize: result.logMaxSize,
+    logMaxFiles: result.logMaxFiles,
+    harBodies: result.harBodies,
+    harIncludeVite: result.harIncludeVite ?? false,
+    quietConsole: result.quietConsole ?? false,
+    startupTimeout: result.startupTimeout,
+    mode:    result.mode,
+    profile: result.profile,
+    freshProfile: result.freshProfile ?? false,
+  };
+}
+
+// Same defaults as Vite: dev runs in development mode, builds in production mode.
+export function resolveMode(args: Args): string {
+  if (args.mode) return args.mode;
+  return args.command === 'build' || args.command === 'package' ? 'production' : 'development';
+}
+
+function isCommand(value: string): value is Command {
+  return (COMMANDS as readonly string[]).includes(value);
+}
+
+// Short stable id for a project dir, shared by the Vite cache dir and per-project state.
+export function getProjectHash(cwd: string): string {
+  return createHash('sha256').update(cwd).digest('hex').slice(0, 8);
+}
+
+export function getWindowdDataDir(env = process.env, platform = process.platform): string {
+  if (platform === 'win32') return join(env.APPDATA ?? join(homedir(), 'AppData', 'Roaming'), 'windowd');
+  if (platform === 'darwin') return join(homedir(), 'Library', 'Application Support', 'windowd');
+  return join(env.XDG_DATA_HOME || join(homedir(), '.local', 'share'), 'windowd');
+}
+
+export function getProjectDataDir(cwd: string): string {
+  return join(getWindowdDataDir(), 'projects', getProjectHash(cwd));
+}
+
+/**
+ * Works out how a capture run decides the page is ready. `--capture-wait-for` implies the
+ * selector strategy; without any flags windowd keeps its old fixed delay.
+ */
+export function resolveCaptureWait(args: Args): CaptureWait {
+  const strategy = args.captureWait ?? (args.captureWaitFor ? 'selector' : 'delay');
+  if (!(CAPTURE_WAIT_STRATEGIES as readonly string[]).includes(strategy)) {
+    throw new Error(`unknown --capture-wait strategy "${strategy}" (expected ${CAPTURE_WAIT_STRATEGIES.join(', ')})`);
+  }
+  if (strategy === 'selector' && !args.captureWaitFor) {
+    throw new Error('--capture-wait selector needs --capture-wait-for <selector>');
+  }
+  const delayMs = args.captureDelay ?? DEFAULT_CAPTURE_DELAY_MS;
+  if (!Number.isInteger(delayMs) || delayMs <= 0) throw new Error('--capture-delay must be a positive number of milliseconds');
+  const timeoutMs = args.captureTimeout ?? DEFAULT_CAPTURE_TIMEOUT_MS;
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) throw new Error('--capture-timeout must be a positive number of milliseconds');
+
+  return {
+    strategy: strategy as CaptureWaitStrategy,
+    selector: strategy === 'selector' ? args.captureWaitFor : undefined,
+    delayMs,
+    timeoutMs,
   };
 }
 
+/**
+ * Parses `--capture-sizes 800x600,1280x800` into the window sizes to capture in one run,
+ * or undefined for a single capture at `--width`/`--height`.
+ */
+export function resolveCaptureSizes(args: Args): WindowSize[] | undefined {
+  if (!args.captureSizes) return undefined;
+  if (!args.capture) throw new Error('--capture-sizes needs --capture <dir>');
+  if (args.command === 'run-script') throw new Error('--capture-sizes is not supported by run-script');
+
+  const sizes = args.captureSizes.split(',').map((value) => {
+    const m = value.trim().match(/^(\d+)x(\d+)$/i);
+    if (!m || Number(m[1]) === 0 || Number(m[2]) === 0) {
+      throw new Error(`invalid --capture-sizes entry "${value}" (expected <width>x<height>)`);
+    }
+    return { width: Number(m[1]), height: Number(m[2]) };
+  });
+
+  const seen = new Set<string>();
+  for (const size of sizes) {
+    const key = captureSizeFile(size);
+    if (seen.has(key)) throw new Error(`--capture-sizes lists ${size.width}x${size.height} twice`);
+    seen.add(key);
+  }
+  return sizes;
+}
+
+export function captureSizeFile(size: WindowSize): string {
+  return `screenshot-${size.width}x${size.height}.png`;
+}
+
+/**
+ * Whether a file in the capture dir was written by an earlier run. These are removed before
+ * NW starts, so a run that ends without writing them is not judged by the old ones.
+ */
+export function isStaleCaptureOutput(file: string): boolean {
+  return CAPTURE_OUTPUT_FILES.has(file) || CAPTURE_SCREENSHOT_PATTERN.test(file) || STEP_SCREENSHOT_PATTERN.test(file);
+}
+
+/**
+ * Works out how a capture is checked against its stored baseline, or undefined when
+ * `--capture-baseline` is not set. Throws on flags that cannot be honoured.
+ */
+export function resolveCaptureBaseline(args: Args): CaptureBaseline | undefined {
+  if (!args.captureBaseline) {
+    if (args.updateBaseline) throw new Error('--update-baseline needs --capture-baseline <dir>');
+    return undefined;
+  }
+  if (!args.capture) throw new Error('--capture-baseline needs --capture <dir>');
+  if (args.command === 'run-script') throw new Error('--capture-baseline is not supported by run-script');
+
+  const threshold = args.baselineThreshold ?? DEFAULT_DIFF_THRESHOLD;
+  if (!(threshold >= 0 && threshold <= 1)) throw new Error('--baseline-threshold must be between 0 and 1');
+
+  return {
+    dir: args.captureBaseline,
+    update: args.updateBaseline,
+    threshold,
+    ignoreRegions: args.baselineIgnore.map(parseRegion),
+  };
+}
+
+/**
+ * Resolves how app.log is written for an artifacts dir. Throws on an unknown format or a
+ * size/count windowd cannot use.
+ */
+export function resolveAppLogOptions(args: Args, path: string): AppLogOptions {
+  const format = args.logFormat ?? 'text';
+  if (!(LOG_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`unknown --log-format "${format}" (expected ${LOG_FORMATS.join(', ')})`);
+  }
+
+  const maxBytes = args.logMaxSize === undefined ? DEFAULT_LOG_MAX_BYTES : parseByteSize(args.logMaxSize);
+  const maxFiles = args.logMaxFiles ?? DEFAULT_LOG_MAX_FILES;
+  if (!Number.isInteger(maxFiles) || maxFiles < 0) throw new Error('--log-max-files must be 0 or more');
+
+  return { path, format: format as LogFormat, maxBytes, maxFiles };
+}
+
+export function resolveHarOptions(args: Args, path: string): HarOptions {
+  return {
+    path,
+    bodyLimit: args.harBodies === undefined ? 0 : parseByteSize(args.harBodies),
+    includeVite: args.harIncludeVite,
+  };
+}
+
+// Parses sizes like `1048576`, `512k`, `8mb` or `1G` into bytes.
+export function parseByteSize(value: string): number {
+  const m = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i);
+  const units: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+  const bytes = m ? Math.floor(Number(m[1]) * units[m[2].toLowerCase()]) : NaN;
+  if (!(bytes > 0)) throw new Error(`invalid size "${value}" (expected bytes, or a number with k, mb or g)`);
+  return bytes;
+}
+
+/**
+ * Picks compile errors out of a chunk of Vite dev server output. Vite follows the
+ * headline with an indented `File: path:line:column` line when it knows the location.
+ */
+export function parseViteErrors(output: string): CaptureError[] {
+  const lines = output.replace(ANSI_PATTERN, '').split(/\r?\n/);
+  const errors: CaptureError[] = [];
+
+  lines.forEach((line, i) => {
+    const m = line.match(VITE_ERROR_PATTERN);
+    if (!m) return;
+
+    // "Transform failed with 1 error:" is only a headline; the detail is on the next line.
+    let message = m[1].trim();
+    const detail = lines[i + 1]?.trim();
+    if (message.endsWith(':') && detail && !VITE_ERROR_PATTERN.test(detail)) message += ` ${detail}`;
+
+    const error: CaptureError = { source: 'vite', message };
+    for (const next of lines.slice(i + 1)) {
+      if (VITE_ERROR_PATTERN.test(next)) break;
+      const file = next.match(/^\s*File:\s*(.+?)(?::(\d+):(\d+))?\s*$/);
+      if (!file) continue;
+      error.file = file[1];
+      if (file[2]) error.line = Number(file[2]);
+      if (file[3]) error.column = Number(file[3]);
+      break;
+    }
+    errors.push(error);
+  });
+
+  return errors;
+}
+
+// Wait before relaunching a crashed window: 1s, 2s, 4s... capped at 30s.
+export function crashBackoffMs(consecutiveCrashes: number): number {
+  return Math.min(1000 * 2 ** Math.max(0, consecutiveCrashes - 1), 30000);
+}
+
+export function resolveStartupTimeout(args: Args): number {
+  const timeout = args.startupTimeout ?? DEFAULT_STARTUP_TIMEOUT_MS;
+  if (!Number.isInteger(timeout) || timeout <= 0) throw new Error('--startup-timeout must be a positive number of milliseconds');
+  return timeout;
+}
+
+/**
+ * Suggests a fix for the usual reasons the Vite dev server fails to start or dies,
+ * based on what it printed. Returns null when nothing recognisable was logged.
+ */
+export function diagnoseViteOutput(output: string): string | null {
+  const text = output.replace(ANSI_PATTERN, '');
+
+  const port = text.match(/Port (\d+) is already in use|EADDRINUSE[^\n]*?:(\d+)/);
+  if (port) return `port ${port[1] ?? port[2]} is already in use; stop the other server using it and try again`;
+
+  const missing = text.match(/Cannot find (?:module|package) ['"]([^'"]+)['"]/);
+  if (missing) {
+    const name = missing[1];
+    if (name.startsWith('.') || isAbsolute(name)) return `cannot resolve "${name}"; check the import path`;
+    return `missing dependency "${name}"; install it (e.g. bun add -d ${name}) or run bun install`;
+  }
+  if (/could not determine executable to run|vite: (?:command )?not found/.test(text)) {
+    return 'vite is not installed; add it with bun add -d vite';
+  }
+
+  // Vite names windowd's generated wrapper config here, not the project's own file.
+  if (/failed to load config from/.test(text)) {
+    if (/SyntaxError|Transform failed|Unexpected|Expected/.test(text)) return 'syntax error in vite.config';
+    return 'Vite could not load vite.config; see the error above';
+  }
+
+  return null;
+}
+
+export function formatCaptureError(error: CaptureError): string {
+  let location = error.file ?? '';
+  if (location && error.line !== undefined) location += `:${error.line}`;
+  if (location && error.column !== undefined) location += `:${error.column}`;
+  return `[${error.source}] ${error.message}${location ? ` (${location})` : ''}`;
+}
+
+/**
+ * Resolves the NW.js user-data-dir for a dev session, or null for a throwaway profile.
+ * A profile is either a name (kept under the project's data dir) or a path.
+ * Capture runs stay ephemeral unless a profile is passed on the command line.
+ */
+export function resolveProfileDir(cwd: string, args: Args, configProfile?: string | false): string | null {
+  if (args.freshProfile) return null;
+  if (args.capture && args.profile === undefined) return null;
+
+  const profile = args.profile ?? configProfile ?? 'default';
+  if (profile === false) return null;
+
+  const isPath = isAbsolute(profile) || profile.startsWith('.') || /[\\/]/.test(profile);
+  if (isPath) return resolve(cwd, profile);
+  return join(getProjectDataDir(cwd), 'profiles', profile);
+}
+
 export function getTitle(cwd: string): string {
   try {
     const pkg = JSON.parse(readFileSync(join(cwd, 'package.json'), 'utf-8'));
@@ -101,6 +666,15 @@ export function getTitle(cwd: string): string {
   return basename(cwd);
 }
 
+export function toExecutableName(title: string): string {
+  const name = title
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^[-.]+|-+$/g, '');
+  return name || 'app';
+}
+
 export function getIconPath(cwd: string): string | null {
   try {
     const html = readFileSync(join(cwd, 'index.html'), 'utf-8');
@@ -131,6 +705,26 @@ export function getIconPath(cwd: string): string | null {
   return null;
 }
 
+// Files that feed the NW host manifest and restart the window when they change: every
+// windowd-config name, the icon getIconPath finds and package.json for the title.
+export function getHostInputFiles(cwd: string): string[] {
+  const iconPath = getIconPath(cwd);
+  return [
+    ...WINDOW_THIS_CONFIGS.map(file => join(cwd, file)),
+    ...(iconPath ? [iconPath] : []),
+    join(cwd, 'package.json'),
+  ];
+}
+
+/**
+ * Why a change to a watched host input should restart the window, or null when it should not.
+ * package.json only counts when it changes the title, and not at all under --title.
+ */
+export function hostInputChangeReason(file: string, cwd: string, title: string, titleOverride?: string): string | null {
+  if (file === join(cwd, 'package.json') && (titleOverride || getTitle(cwd) === title)) return null;
+  return basename(file);
+}
+
 export function hasTypeScriptSource(dir: string, depth: number): boolean {
   if (depth > 5) return false;
 
@@ -195,3 +789,82 @@ export function isExpectedTsConfigValue(key: string, actual: unknown, expected:
   }
   return actual === expected;
 }
+
+// ─── node-main helpers ────────────────────────────────────────────────────────
+// buildNodeMainJs embeds these as source, so each must only use its arguments and globals.
+
+/**
+ * The URL a secondary window opens at. A `#route` keeps the main page and swaps the hash;
+ * anything else resolves against it and keeps windowd's query params, e.g. windowThisProjectDir.
+ * Every window gets ?windowdWindow=<id> so its app.log lines say which window logged.
+ */
+export function resolveWindowUrl(def: WindowDefinition, baseHref: string, id: string): string {
+  const base = new URL(baseHref);
+  if (def.route && def.route.startsWith('#')) {
+    base.searchParams.set('windowdWindow', id);
+    base.hash = def.route;
+    return base.toString();
+  }
+  const target = new URL(def.html || def.route || '', base);
+  base.searchParams.forEach((value, key) => {
+    if (!target.searchParams.has(key)) target.searchParams.set(key, value);
+  });
+  target.searchParams.set('windowdWindow', id);
+  return target.toString();
+}
+
+// nw.Window.open options for a secondary window; the definition's own fields win over `options`.
+export function resolveWindowOpenOptions(id: string, def: WindowDefinition): Record<string, unknown> {
+  const options: Record<string, unknown> = { id: 'windowd-' + id, ...(def.options || {}) };
+  for (const key of ['title', 'width', 'height', 'frame'] as const) {
+    if (def[key] !== undefined) options[key] = def[key];
+  }
+  return options;
+}
+
+// An element's ARIA role: its role attribute, else the implicit role of its tag, or null.
+export function snapshotRoleOf(el: SnapshotElement): string | null {
+  const explicit = (el.getAttribute('role') || '').trim().split(/\s+/)[0];
+  if (explicit) return explicit;
+  if (el.isContentEditable && !(el.parentElement && el.parentElement.isContentEditable)) return 'textbox';
+  switch (el.tagName) {
+    case 'A': return el.hasAttribute('href') ? 'link' : null;
+    case 'BUTTON': return 'button';
+    case 'SELECT': return el.multiple || (el.size ?? 0) > 1 ? 'listbox' : 'combobox';
+    case 'TEXTAREA': return 'textbox';
+    case 'SUMMARY': return 'button';
+    case 'OPTION': return 'option';
+    case 'INPUT': {
+      const type = (el.getAttribute('type') || 'text').toLowerCase();
+      if (type === 'hidden') return null;
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (type === 'range') return 'slider';
+      if (type === 'number') return 'spinbutton';
+      if (type === 'search') return 'searchbox';
+      if (type === 'button' || type === 'submit' || type === 'reset' || type === 'image') return 'button';
+      return 'textbox';
+    }
+    case 'NAV': return 'navigation';
+    case 'MAIN': return 'main';
+    case 'HEADER': return 'banner';
+    case 'FOOTER': return 'contentinfo';
+    case 'ASIDE': return 'complementary';
+    case 'FORM': return 'form';
+    case 'DIALOG': return 'dialog';
+    case 'UL':
+    case 'OL': return 'list';
+    case 'LI': return 'listitem';
+    case 'TABLE': return 'table';
+    case 'FIELDSET': return 'group';
+    default: return null;
+  }
+}
+
+// Short CSS-like label for an element, e.g. button#save.primary.
+export function describeSnapshotElement(el: SnapshotElement): string {
+  let label = el.tagName.toLowerCase();
+  if (el.id) label += '#' + el.id;
+  const classes = (el.getAttribute('class') || '').trim().split(/\s+/).filter(Boolean).slice(0, 2);
+  if (classes.length) label += '.' + classes.join('.');
+  return label;
+}
@@ -0,0 +1,195 @@
+import type { MenuItemDefinition, MenuRole } from './lib.ts';
+
+// ─── interfaces ───────────────────────────────────────────────────────────────
+
+// A MenuItemDefinition with role defaults filled in and its accelerator in nw.MenuItem terms.
+export interface ResolvedMenuItem {
+  type: 'normal' | 'separator' | 'checkbox';
+  label: string;
+  key?: string;
+  modifiers?: string;
+  role?: MenuRole;
+  id?: string;
+  enabled: boolean;
+  checked: boolean;
+  submenu?: ResolvedMenuItem[];
+}
+
+// What node-main builds the menu bar from.
+export interface MenuPlan {
+  items: ResolvedMenuItem[];
+  // macOS only: start from nw.Menu#createMacBuiltin, which adds the app menu and a native
+  // Edit menu. The latter is hidden when the config brings its own clipboard items.
+  macBuiltin: { appName: string; hideEdit: boolean } | null;
+}
+
+// What node-main builds the tray icon from.
+export interface TrayPlan {
+  // Copied into the host dir next to node-main.
+  iconFile: string;
+  tooltip: string;
+  menu: ResolvedMenuItem[];
+  hideOnClose: boolean;
+  toggleOnClick: boolean;
+}
+
+export interface Accelerator {
+  key: string;
+  // nw.MenuItem modifiers, e.g. 'cmd+shift'.
+  modifiers: string;
+}
+
+// ─── constants ────────────────────────────────────────────────────────────────
+
+const ROLE_DEFAULTS: Record<MenuRole, { label: string; accelerator?: string }> = {
+  undo: { label: 'Undo', accelerator: 'CmdOrCtrl+Z' },
+  redo: { label: 'Redo', accelerator: 'CmdOrCtrl+Shift+Z' },
+  cut: { label: 'Cut', accelerator: 'CmdOrCtrl+X' },
+  copy: { label: 'Copy', accelerator: 'CmdOrCtrl+C' },
+  paste: { label: 'Paste', accelerator: 'CmdOrCtrl+V' },
+  selectAll: { label: 'Select All', accelerator: 'CmdOrCtrl+A' },
+  delete: { label: 'Delete' },
+  reload: { label: 'Reload', accelerator: 'CmdOrCtrl+R' },
+  forceReload: { label: 'Force Reload', accelerator: 'CmdOrCtrl+Shift+R' },
+  toggleDevTools: { label: 'Toggle Developer Tools', accelerator: 'CmdOrCtrl+Shift+I' },
+  toggleFullscreen: { label: 'Toggle Full Screen', accelerator: 'F11' },
+  zoomIn: { label: 'Zoom In', accelerator: 'CmdOrCtrl+=' },
+  zoomOut: { label: 'Zoom Out', accelerator: 'CmdOrCtrl+-' },
+  resetZoom: { label: 'Actual Size', accelerator: 'CmdOrCtrl+0' },
+  minimize: { label: 'Minimize', accelerator: 'CmdOrCtrl+M' },
+  close: { label: 'Close Window', accelerator: 'CmdOrCtrl+W' },
+  quit: { label: 'Quit', accelerator: 'CmdOrCtrl+Q' },
+};
+
+// A menu with any of these already covers the clipboard shortcuts.
+const EDIT_ROLES: readonly MenuRole[] = ['undo', 'redo', 'cut', 'copy', 'paste', 'selectAll'];
+
+export const DEFAULT_EDIT_MENU: MenuItemDefinition = {
+  label: 'Edit',
+  submenu: [
+    { role: 'undo' },
+    { role: 'redo' },
+    { type: 'separator' },
+    { role: 'cut' },
+    { role: 'copy' },
+    { role: 'paste' },
+    { role: 'selectAll' },
+  ],
+};
+
+const MODIFIERS: Record<string, 'cmd' | 'ctrl' | 'alt' | 'shift' | 'cmdorctrl'> = {
+  cmdorctrl: 'cmdorctrl',
+  commandorcontrol: 'cmdorctrl',
+  cmd: 'cmd',
+  command: 'cmd',
+  meta: 'cmd',
+  super: 'cmd',
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  alt: 'alt',
+  option: 'alt',
+  shift: 'shift',
+};
+
+// ─── functions ────────────────────────────────────────────────────────────────
+
+/**
+ * Turns an Electron-style accelerator into an nw.MenuItem key and modifiers. `CmdOrCtrl`
+ * becomes cmd on macOS and ctrl elsewhere; `CmdOrCtrl++` binds the plus key.
+ */
+export function parseAccelerator(accelerator: string, platform: NodeJS.Platform = process.platform): Accelerator {
+  const plusKey = accelerator.endsWith('++');
+  const parts = (plusKey ? accelerator.slice(0, -2) : accelerator).split('+').map(part => part.trim());
+  const key = plusKey ? '+' : parts.pop();
+  if (!key) throw new Error(`invalid accelerator "${accelerator}" (expected e.g. CmdOrCtrl+Shift+S)`);
+
+  const modifiers = parts.map((part) => {
+    const modifier = MODIFIERS[part.toLowerCase()];
+    if (!modifier) throw new Error(`unknown modifier "${part}" in accelerator "${accelerator}"`);
+    return modifier === 'cmdorctrl' ? (platform === 'darwin' ? 'cmd' : 'ctrl') : modifier;
+  });
+  return { key: key.length === 1 ? key.toLowerCase() : key, modifiers: [...new Set(modifiers)].join('+') };
+}
+
+/**
+ * Problems with a menu tree that the schema can't express, one `path: problem` line each.
+ * A menu bar's entries must be submenus; other items need a role or an id to do anything.
+ */
+export function findMenuProblems(items: MenuItemDefinition[], path = 'nw.menu', menuBar = true): string[] {
+  const problems: string[] = [];
+  items.forEach((item, i) => {
+    const at = `${path}[${i}]`;
+    if (menuBar && !item.submenu) {
+      problems.push(`${at}: top-level menu entries need a submenu`);
+      return;
+    }
+    if (item.type === 'separator') return;
+
+    if (item.submenu) {
+      if (!item.label) problems.push(`${at}: submenus need a label`);
+      problems.push(...findMenuProblems(item.submenu, `${at}.submenu`, false));
+    } else if (!item.role && !item.id) {
+      problems.push(`${at}: needs a role or id so clicking it does something`);
+    } else if (!item.role && !item.label) {
+      problems.push(`${at}: needs a label`);
+    }
+    if (item.accelerator) {
+      try {
+        parseAccelerator(item.accelerator);
+      } catch (error) {
+        problems.push(`${at}.accelerator: ${(error as Error).message}`);
+      }
+    }
+  });
+  return problems;
+}
+
+/**
+ * Decides the menu bar for a platform. Without nw.menu, macOS gets NW.js's built-in app and
+ * Edit menus so Cmd+C/V work, and other platforms get no menu bar, since Chromium handles
+ * the clipboard shortcuts there already. A configured menu without clipboard items gets
+ * DEFAULT_EDIT_MENU, after a leading File menu. `false` turns all of it off.
+ */
+export function resolveMenu(menu: MenuItemDefinition[] | false | undefined, platform: NodeJS.Platform, appName: string): MenuPlan | null {
+  if (menu === false) return null;
+  const items = menu ?? [];
+  const hasEdit = hasRole(items, EDIT_ROLES);
+
+  if (platform === 'darwin') {
+    return { items: items.map(item => resolveMenuItem(item, platform)), macBuiltin: { appName, hideEdit: hasEdit } };
+  }
+  if (!menu) return null;
+
+  const withEdit = [...items];
+  if (!hasEdit) withEdit.splice(/^&?file$/i.test(items[0]?.label ?? '') ? 1 : 0, 0, DEFAULT_EDIT_MENU);
+  return { items: withEdit.map(item => resolveMenuItem(item, platform)), macBuiltin: null };
+}
+
+// A tray app may have no window left to close, so its menu always ends with Quit.
+export function resolveTrayMenu(items: MenuItemDefinition[] | undefined, platform: NodeJS.Platform): ResolvedMenuItem[] {
+  const menu = items ?? [];
+  const quit: MenuItemDefinition[] = menu.length > 0 ? [{ type: 'separator' }, { role: 'quit' }] : [{ role: 'quit' }];
+  return [...menu, ...(hasRole(menu, ['quit']) ? [] : quit)].map(item => resolveMenuItem(item, platform));
+}
+
+function resolveMenuItem(item: MenuItemDefinition, platform: NodeJS.Platform): ResolvedMenuItem {
+  if (item.type === 'separator') return { type: 'separator', label: '', enabled: true, checked: false };
+
+  const defaults = item.role ? ROLE_DEFAULTS[item.role] : undefined;
+  const accelerator = item.accelerator ?? defaults?.accelerator;
+  const resolved: ResolvedMenuItem = {
+    type: item.type ?? 'normal',
+    label: item.label ?? defaults?.label ?? '',
+    enabled: item.enabled ?? true,
+    checked: item.checked ?? false,
+    ...(accelerator ? parseAccelerator(accelerator, platform) : {}),
+  };
+  if (item.role) resolved.role = item.role;
+  if (item.id) resolved.id = item.id;
+  if (item.submenu) resolved.submenu = item.submenu.map(child => resolveMenuItem(child, platform));
+  return resolved;
+}
+
+function hasRole(items: MenuItemDefinition[], roles: readonly MenuRole[]): boolean {
+  return items.some(item => (item.role !== undefined && roles.includes(item.role)) || hasRole(item.submenu ?? [], roles));
+}
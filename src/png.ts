@@ -0,0 +1,215 @@
+import { deflateSync, inflateSync } from 'node:zlib';
+
+// ─── interfaces ───────────────────────────────────────────────────────────────
+
+// Decoded image, always 8-bit RGBA regardless of the source PNG's color type.
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// ─── constants ────────────────────────────────────────────────────────────────
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Samples per pixel for each PNG color type.
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// ─── decode ───────────────────────────────────────────────────────────────────
+
+/**
+ * Decodes a non-interlaced PNG into RGBA. Covers every color type and bit depth NW.js
+ * or common image editors write; interlaced files are rejected.
+ */
+export function decodePng(buffer: Uint8Array): RgbaImage {
+  const buf = Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(PNG_SIGNATURE)) throw new Error('not a PNG file');
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= buf.length) {
+    const length = buf.readUInt32BE(offset);
+    const type = buf.toString('ascii', offset + 4, offset + 8);
+    const data = buf.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) throw new Error('interlaced PNGs are not supported');
+      if (!(colorType in CHANNELS)) throw new Error(`unsupported PNG color type ${colorType}`);
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!width || !height) throw new Error('PNG is missing its IHDR chunk');
+  if (colorType === 3 && !palette) throw new Error('indexed PNG is missing its PLTE chunk');
+
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = unfilter(inflateSync(Buffer.concat(idat)), stride, height, bytesPerPixel);
+
+  const maxSample = (1 << bitDepth) - 1;
+  const sample = (row: number, index: number): number => {
+    const base = row * stride;
+    if (bitDepth === 8) return raw[base + index];
+    if (bitDepth === 16) return raw[base + index * 2];
+    const bit = index * bitDepth;
+    return (raw[base + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  // Scales a sample to 0..255; indexed samples are palette positions and stay as-is.
+  const scale = (value: number) => bitDepth >= 8 ? value : Math.round((value * 255) / maxSample);
+  const transparentKey = transparency && colorType !== 3 ? readTransparentKey(transparency, colorType, bitDepth) : null;
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const at = x * channels;
+      let r: number, g: number, b: number, a = 255;
+
+      if (colorType === 3) {
+        const index = sample(y, at);
+        r = palette![index * 3];
+        g = palette![index * 3 + 1];
+        b = palette![index * 3 + 2];
+        if (transparency && index < transparency.length) a = transparency[index];
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = sample(y, at);
+        r = g = b = scale(gray);
+        if (colorType === 4) a = scale(sample(y, at + 1));
+        else if (transparentKey && gray === transparentKey[0]) a = 0;
+      } else {
+        const rgb = [sample(y, at), sample(y, at + 1), sample(y, at + 2)];
+        [r, g, b] = rgb.map(scale);
+        if (colorType === 6) a = scale(sample(y, at + 3));
+        else if (transparentKey && rgb.every((v, i) => v === transparentKey[i])) a = 0;
+      }
+
+      data[out] = r;
+      data[out + 1] = g;
+      data[out + 2] = b;
+      data[out + 3] = a;
+    }
+  }
+
+  return { width, height, data };
+}
+
+// tRNS for grayscale/truecolor images holds one 16-bit key per channel; compare at the sample's own depth.
+function readTransparentKey(chunk: Buffer, colorType: number, bitDepth: number): number[] {
+  const count = colorType === 0 ? 1 : 3;
+  const keys: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const value = chunk.readUInt16BE(i * 2);
+    keys.push(bitDepth === 16 ? value >> 8 : value);
+  }
+  return keys;
+}
+
+function unfilter(filtered: Buffer, stride: number, height: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = filtered[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bpp ? out[row + i - bpp] : 0;
+      const up = y > 0 ? out[prev + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? out[prev + i - bpp] : 0;
+      const value = filtered[src + i];
+
+      switch (filter) {
+        case 0: out[row + i] = value; break;
+        case 1: out[row + i] = value + left; break;
+        case 2: out[row + i] = value + up; break;
+        case 3: out[row + i] = value + ((left + up) >> 1); break;
+        case 4: out[row + i] = value + paeth(left, up, upLeft); break;
+        default: throw new Error(`invalid PNG filter type ${filter}`);
+      }
+    }
+  }
+
+  return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// ─── encode ───────────────────────────────────────────────────────────────────
+
+// Writes an 8-bit RGBA PNG with no row filtering; good enough for diff images.
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const out = Buffer.alloc(12 + data.length);
+  out.writeUInt32BE(data.length, 0);
+  out.write(type, 4, 'ascii');
+  data.copy(out, 8);
+  out.writeUInt32BE(crc32(out.subarray(4, 8 + data.length)), 8 + data.length);
+  return out;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
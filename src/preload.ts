@@ -0,0 +1,194 @@
+import type { AppLogOptions } from './lib.ts';
+
+// ─── constants ────────────────────────────────────────────────────────────────
+
+// Written next to node-main and run through inject_js_start, before any app script.
+export const PRELOAD_FILE = 'windowd-preload.js';
+
+// Name of every console wrapper the preload installs, so a stack frame shows which are windowd's.
+const CONSOLE_HOOK_NAME = 'windowdConsoleHook';
+
+// ─── functions ────────────────────────────────────────────────────────────────
+
+// app.log writer shared by the preload and node-main. Text lines keep the original
+// `[time] [level] message` shape; json writes the whole record as one NDJSON line.
+export function buildAppLogWriterJs(appLog: AppLogOptions | null): string {
+  return `
+  const __appLog = ${JSON.stringify(appLog)};
+  const rotateAppLog = () => {
+    for (let i = __appLog.maxFiles - 1; i >= 1; i--) {
+      const from = __appLog.path + '.' + i;
+      if (fs.existsSync(from)) fs.renameSync(from, __appLog.path + '.' + (i + 1));
+    }
+    if (__appLog.maxFiles > 0) fs.renameSync(__appLog.path, __appLog.path + '.1');
+    else fs.writeFileSync(__appLog.path, '');
+  };
+  const writeAppLog = (record) => {
+    if (!__appLog) return;
+    try {
+      fs.mkdirSync(pathMod.dirname(__appLog.path), { recursive: true });
+      const line = __appLog.format === 'json'
+        ? JSON.stringify(record)
+        : '[' + record.time + '] [' + record.level + '] ' + record.message;
+      fs.appendFileSync(__appLog.path, line + '\\n');
+      if (fs.statSync(__appLog.path).size > __appLog.maxBytes) rotateAppLog();
+    } catch {}
+  };`;
+}
+
+// Console argument serialization shared by the app.log and terminal forwarding preloads.
+function buildSerializeJs(): string {
+  return `
+  const MAX_DEPTH = 6;
+
+  const isError = (value) => Object.prototype.toString.call(value) === '[object Error]'
+    || (value instanceof Object && typeof value.message === 'string' && typeof value.stack === 'string');
+
+  // Turns a console argument into something JSON can hold, keeping Error name, message and stack.
+  const serialize = (value, seen = new WeakSet(), depth = 0) => {
+    if (value === undefined) return '[undefined]';
+    if (typeof value === 'bigint') return value.toString() + 'n';
+    if (typeof value === 'function') return '[function ' + (value.name || 'anonymous') + ']';
+    if (typeof value === 'symbol') return value.toString();
+    if (typeof value !== 'object' || value === null) return value;
+    if (seen.has(value)) return '[circular]';
+    seen.add(value);
+    if (isError(value)) {
+      const error = { name: value.name, message: value.message, stack: value.stack };
+      if (value.cause !== undefined) error.cause = serialize(value.cause, seen, depth + 1);
+      return error;
+    }
+    if (typeof value.nodeType === 'number' && typeof value.nodeName === 'string') {
+      return '[' + value.nodeName.toLowerCase() + ']';
+    }
+    if (depth >= MAX_DEPTH) return Array.isArray(value) ? '[array]' : '[object]';
+    if (Array.isArray(value)) return value.map((item) => serialize(item, seen, depth + 1));
+    const out = {};
+    for (const key of Object.keys(value)) {
+      try {
+        out[key] = serialize(value[key], seen, depth + 1);
+      } catch {
+        out[key] = '[unreadable]';
+      }
+    }
+    return out;
+  };
+
+  const toText = (arg) => {
+    if (typeof arg === 'string') return arg;
+    if (arg && typeof arg === 'object' && typeof arg.stack === 'string' && typeof arg.message === 'string') return arg.stack;
+    try {
+      return JSON.stringify(arg);
+    } catch {
+      return String(arg);
+    }
+  };`;
+}
+
+export function buildLogPreloadJs(appLog: AppLogOptions): string {
+  return `
+(() => {
+  const fs = require('fs');
+  const pathMod = require('path');
+  ${buildAppLogWriterJs(appLog)}
+
+  // Secondary windows get ?windowdWindow=<id> from node-main; everything else is the main window.
+  const windowId = new URLSearchParams(location.search).get('windowdWindow') || 'main';
+  ${buildSerializeJs()}
+
+  const log = (level, args, source) => {
+    const serialized = args.map((arg) => serialize(arg));
+    writeAppLog({
+      time: new Date().toISOString(),
+      level,
+      window: windowId,
+      message: serialized.map(toText).join(' '),
+      args: serialized,
+      source: source || null,
+    });
+  };
+
+  // The frame below the last windowd console wrapper, so the terminal forwarding one layered on
+  // top of this hook is skipped too. Matched by name rather than file, since a user
+  // inject_js_start script is appended to this same file and its calls count.
+  const callerSource = () => {
+    const frames = String(new Error().stack || '').split('\\n').filter((line) => /^\\s+at /.test(line));
+    const frame = frames[frames.findLastIndex((line) => line.includes('${CONSOLE_HOOK_NAME}')) + 1];
+    const m = frame && frame.match(/\\(?([^\\s()]+:\\d+:\\d+)\\)?\\s*$/);
+    return m ? m[1] : null;
+  };
+
+  for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+    const original = typeof console[level] === 'function' ? console[level].bind(console) : null;
+    console[level] = function ${CONSOLE_HOOK_NAME}(...args) {
+      log(level, args, callerSource());
+      if (original) original(...args);
+    };
+  }
+
+  addEventListener('error', (event) => {
+    const source = event.filename ? event.filename + ':' + event.lineno + ':' + event.colno : null;
+    log('error', [event.error || event.message || 'window error'], source);
+  });
+  addEventListener('unhandledrejection', (event) => {
+    log('error', ['Unhandled rejection:', event.reason]);
+  });
+
+  log('info', ['[windowd] preload console hook installed']);
+})();
+`;
+}
+
+// Streams console calls and uncaught errors to the windowd terminal. Posts go through Node's
+// http module rather than fetch so the network hooks never see them.
+export function buildConsolePreloadJs(consoleUrl: string): string {
+  return `
+(() => {
+  const http = require('http');
+  const consoleUrl = ${JSON.stringify(consoleUrl)};
+  const windowId = new URLSearchParams(location.search).get('windowdWindow') || 'main';
+  ${buildSerializeJs()}
+
+  let pending = [];
+  let flushTimer = null;
+
+  const flush = () => {
+    flushTimer = null;
+    if (pending.length === 0) return;
+    const body = pending.map((message) => JSON.stringify(message)).join('\\n');
+    pending = [];
+    try {
+      const req = http.request(consoleUrl, { method: 'POST', headers: { 'content-type': 'application/x-ndjson' } });
+      req.on('error', () => {});
+      req.end(body);
+    } catch {}
+  };
+
+  const send = (level, text) => {
+    pending.push({ window: windowId, level, text });
+    if (!flushTimer) flushTimer = setTimeout(flush, 50);
+  };
+
+  for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+    const original = typeof console[level] === 'function' ? console[level].bind(console) : null;
+    console[level] = function ${CONSOLE_HOOK_NAME}(...args) {
+      try {
+        send(level, args.map((arg) => toText(serialize(arg))).join(' '));
+      } catch {}
+      if (original) original(...args);
+    };
+  }
+
+  addEventListener('error', (event) => {
+    // Resource load failures also fire here but carry no message; the HAR and capture errors cover those.
+    if (!event.error && !event.message) return;
+    const where = event.filename ? ' (' + event.filename + ':' + event.lineno + ':' + event.colno + ')' : '';
+    send('error', 'Uncaught ' + (event.error ? toText(serialize(event.error)) : event.message + where));
+  });
+  addEventListener('unhandledrejection', (event) => {
+    send('error', 'Unhandled rejection: ' + toText(serialize(event.reason)));
+  });
+  addEventListener('pagehide', flush);
+})();
+`;
+}
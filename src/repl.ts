@@ -0,0 +1,175 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Script } from 'node:vm';
+
+// ─── interfaces ───────────────────────────────────────────────────────────────
+
+// One line of input sent to node-main over the REPL socket, as NDJSON.
+export interface ReplRequest {
+  id: number;
+  code: string;
+  colors: boolean;
+}
+
+// The evaluated result already formatted with util.inspect, or the error it threw.
+export interface ReplResponse {
+  id: number;
+  output?: string;
+  error?: string;
+}
+
+// ─── constants ────────────────────────────────────────────────────────────────
+
+export const REPL_HISTORY_FILE = '.windowd/repl_history';
+export const REPL_HISTORY_SIZE = 1000;
+
+// Parser messages for input that is fine so far but not finished, across V8 and JavaScriptCore.
+const INCOMPLETE_INPUT = /Unexpected end of (input|script)|Unexpected EOF|Unterminated template/;
+
+// After these a `/` starts a regex literal rather than a division.
+const REGEX_PRECEDING_WORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await',
+]);
+
+// ─── functions ────────────────────────────────────────────────────────────────
+
+/**
+ * Where node-main listens for `windowd repl` clients. Named pipes on Windows, a socket file
+ * in the temp dir elsewhere; the token keeps concurrent sessions apart and the name short
+ * enough for the unix socket path limit.
+ */
+export function replSocketPath(token: string, platform: NodeJS.Platform = process.platform, dir = tmpdir()): string {
+  const name = `windowd-repl-${token.slice(0, 12)}`;
+  return platform === 'win32' ? `\\\\.\\pipe\\${name}` : join(dir, `${name}.sock`);
+}
+
+// True when more lines could still complete the input, e.g. an open brace or template literal.
+export function isIncompleteInput(code: string): boolean {
+  try {
+    new Script(code);
+    return false;
+  } catch (error) {
+    return error instanceof SyntaxError && INCOMPLETE_INPUT.test(error.message);
+  }
+}
+
+export function isReplResponse(value: unknown): value is ReplResponse {
+  if (typeof value !== 'object' || value === null) return false;
+  const response = value as Record<string, unknown>;
+  return typeof response.id === 'number'
+    && (typeof response.output === 'string' || typeof response.error === 'string');
+}
+
+/**
+ * Rewrites top-level `const`, `let` and `class` declarations into `var`s, which the page's
+ * indirect eval keeps as globals, so they are still there for the next entry the way they
+ * are in Node's REPL. Declarations inside blocks, functions and loop heads are left alone.
+ */
+export function hoistDeclarations(code: string): string {
+  let out = '';
+  let depth = 0;
+  // Only whitespace and comments since the last top-level statement boundary.
+  let statementStart = true;
+  // The last token, to tell a regex literal from a division.
+  let previous = '';
+  let i = 0;
+
+  while (i < code.length) {
+    const ch = code[i];
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      if (ch === '\n' && depth === 0) statementStart = true;
+      out += ch;
+      i++;
+      continue;
+    }
+    if (code.startsWith('//', i) || code.startsWith('/*', i)) {
+      const end = code.startsWith('//', i) ? code.indexOf('\n', i) : code.indexOf('*/', i + 2) + 2;
+      i = end <= 0 ? code.length : end;
+      out += code.slice(start, i);
+      continue;
+    }
+
+    if (/[\w$]/.test(ch)) {
+      while (i < code.length && /[\w$]/.test(code[i])) i++;
+      const word = code.slice(start, i);
+      const rest = code.slice(i);
+      if (statementStart && depth === 0 && (word === 'const' || word === 'let') && /^\s*[\w$[{]/.test(rest)) {
+        out += 'var';
+      } else if (statementStart && depth === 0 && word === 'class' && /^\s+[\w$]/.test(rest)) {
+        const name = /^\s+([\w$]+)/.exec(rest)![1];
+        out += `var ${name} = class`;
+      } else {
+        out += word;
+      }
+      statementStart = false;
+      previous = word;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === '`' || (ch === '/' && startsRegex(previous))) {
+      i = skipLiteral(code, i);
+      out += code.slice(start, i);
+      statementStart = false;
+      previous = 'literal';
+      continue;
+    }
+
+    if ('([{'.includes(ch)) depth++;
+    if (')]}'.includes(ch)) depth = Math.max(0, depth - 1);
+    statementStart = depth === 0 && (ch === ';' || ch === '}');
+    previous = ch;
+    out += ch;
+    i++;
+  }
+  return out;
+}
+
+function startsRegex(previous: string): boolean {
+  if (previous === '') return true;
+  if (/^[\w$]/.test(previous)) return REGEX_PRECEDING_WORDS.has(previous);
+  return !/[)\]}]/.test(previous) && previous !== 'literal';
+}
+
+// The index just past the string, template or regex literal starting at `start`.
+function skipLiteral(code: string, start: number): number {
+  const quote = code[start];
+  let inClass = false;
+  let i = start + 1;
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (quote === '`' && code.startsWith('${', i)) {
+      i = skipTemplateExpression(code, i + 2);
+      continue;
+    }
+    if (quote === '/' && (ch === '[' || ch === ']')) inClass = ch === '[';
+    else if (ch === quote && !inClass) break;
+    i++;
+  }
+  if (quote !== '/') return i + 1;
+  i++;
+  while (i < code.length && /[a-z]/i.test(code[i])) i++;
+  return i;
+}
+
+// The index just past the `}` closing a template's `${ ... }`, starting after its `${`.
+function skipTemplateExpression(code: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipLiteral(code, i);
+      continue;
+    }
+    if (ch === '{') depth++;
+    if (ch === '}' && depth-- === 0) return i + 1;
+    i++;
+  }
+  return i;
+}
@@ -0,0 +1,106 @@
+import { SHORTCUT_ACTIONS, type ShortcutAction, type ShortcutsDefinition } from './lib.ts';
+import { parseAccelerator } from './menu.ts';
+
+// ─── interfaces ───────────────────────────────────────────────────────────────
+
+// One chord of the in-window keymap, matched against keydown events.
+export interface KeyBinding {
+  action: ShortcutAction;
+  // Lowercased KeyboardEvent#key, e.g. 'r', 'f12', '+'.
+  key: string;
+  // In MODIFIER_ORDER, e.g. 'ctrl+shift'; node-main builds the same string from the event.
+  modifiers: string;
+}
+
+export interface GlobalShortcut {
+  id: string;
+  // nw.Shortcut key, e.g. 'Ctrl+Shift+N'.
+  key: string;
+}
+
+// What node-main builds its keymap and global shortcuts from.
+export interface ShortcutPlan {
+  keys: KeyBinding[];
+  global: GlobalShortcut[];
+}
+
+// ─── constants ────────────────────────────────────────────────────────────────
+
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string[]> = {
+  devTools: ['F12', 'CmdOrCtrl+Shift+I'],
+  reload: ['CmdOrCtrl+R', 'F5'],
+  hardReload: ['CmdOrCtrl+Shift+R', 'Shift+F5'],
+  zoomIn: ['CmdOrCtrl+=', 'CmdOrCtrl++'],
+  zoomOut: ['CmdOrCtrl+-'],
+  resetZoom: ['CmdOrCtrl+0'],
+  toggleFullscreen: ['F11'],
+  closeWindow: ['CmdOrCtrl+W'],
+};
+
+// macOS has no F11 for fullscreen; its convention is Ctrl+Cmd+F.
+const MAC_FULLSCREEN = ['Cmd+Ctrl+F'];
+
+const MODIFIER_ORDER = ['cmd', 'ctrl', 'alt', 'shift'];
+
+// Accelerator key names whose KeyboardEvent#key is spelled differently.
+const EVENT_KEY_NAMES: Record<string, string> = {
+  plus: '+',
+  space: ' ',
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright',
+  esc: 'escape',
+  return: 'enter',
+};
+
+const NW_MODIFIERS: Record<string, string> = { cmd: 'Command', ctrl: 'Ctrl', alt: 'Alt', shift: 'Shift' };
+
+const NW_KEY_NAMES: Record<string, string> = { ',': 'Comma', '.': 'Period', ' ': 'Space' };
+
+// ─── functions ────────────────────────────────────────────────────────────────
+
+/**
+ * Builds the keymap from DEFAULT_SHORTCUTS and nw.shortcuts. A configured action replaces
+ * its defaults, and its chords come first so they win over a default bound to the same keys.
+ */
+export function resolveShortcuts(shortcuts: ShortcutsDefinition | undefined, platform: NodeJS.Platform): ShortcutPlan {
+  const defaults = platform === 'darwin' ? { ...DEFAULT_SHORTCUTS, toggleFullscreen: MAC_FULLSCREEN } : DEFAULT_SHORTCUTS;
+  const configured: KeyBinding[] = [];
+  const builtIn: KeyBinding[] = [];
+
+  for (const action of SHORTCUT_ACTIONS) {
+    const own = shortcuts?.[action];
+    if (own === false) continue;
+    const accelerators = own === undefined ? defaults[action] : [own].flat();
+    for (const accelerator of accelerators) {
+      (own === undefined ? builtIn : configured).push({ action, ...toKeyBinding(accelerator, platform) });
+    }
+  }
+
+  const global = Object.entries(shortcuts?.global ?? {}).map(([id, accelerator]) => ({
+    id,
+    key: toNwShortcutKey(accelerator, platform),
+  }));
+  return { keys: [...configured, ...builtIn], global };
+}
+
+/**
+ * Turns an accelerator into nw.Shortcut's key format, e.g. 'CmdOrCtrl+Shift+N' into
+ * 'Ctrl+Shift+N' on Linux and 'Command+Shift+N' on macOS.
+ */
+export function toNwShortcutKey(accelerator: string, platform: NodeJS.Platform = process.platform): string {
+  const { key, modifiers } = parseAccelerator(accelerator, platform);
+  const nwKey = NW_KEY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key[0].toUpperCase() + key.slice(1));
+  return [...sortModifiers(modifiers).map(modifier => NW_MODIFIERS[modifier]), nwKey].join('+');
+}
+
+function toKeyBinding(accelerator: string, platform: NodeJS.Platform): { key: string; modifiers: string } {
+  const { key, modifiers } = parseAccelerator(accelerator, platform);
+  const lower = key.toLowerCase();
+  return { key: EVENT_KEY_NAMES[lower] ?? lower, modifiers: sortModifiers(modifiers).join('+') };
+}
+
+function sortModifiers(modifiers: string): string[] {
+  return modifiers ? modifiers.split('+').sort((a, b) => MODIFIER_ORDER.indexOf(a) - MODIFIER_ORDER.indexOf(b)) : [];
+}
@@ -0,0 +1,128 @@
+// ─── interfaces ───────────────────────────────────────────────────────────────
+
+interface StepBase {
+  // Optional label used in the step log and failure message.
+  name?: string;
+  // Per-step timeout in ms for finding elements or waiting (default: DEFAULT_STEP_TIMEOUT_MS).
+  timeout?: number;
+}
+
+export type Step = StepBase & (
+  | { action: 'click'; selector: string }
+  | { action: 'type'; selector: string; text: string }
+  | { action: 'press'; key: string; selector?: string }
+  | { action: 'waitFor'; selector: string }
+  | { action: 'evaluate'; expression: string }
+  | { action: 'screenshot'; name: string }
+);
+
+export type StepAction = Step['action'];
+
+// ─── constants ────────────────────────────────────────────────────────────────
+
+export const DEFAULT_STEP_TIMEOUT_MS = 5000;
+
+const STEP_FIELDS: Record<StepAction, { required: string[]; optional: string[] }> = {
+  click:      { required: ['selector'],         optional: [] },
+  type:       { required: ['selector', 'text'], optional: [] },
+  press:      { required: ['key'],              optional: ['selector'] },
+  waitFor:    { required: ['selector'],         optional: [] },
+  evaluate:   { required: ['expression'],       optional: [] },
+  screenshot: { required: ['name'],             optional: [] },
+};
+
+// ─── builders ─────────────────────────────────────────────────────────────────
+
+export function click(selector: string, options: StepBase = {}): Step {
+  return { ...options, action: 'click', selector };
+}
+
+export function type(selector: string, text: string, options: StepBase = {}): Step {
+  return { ...options, action: 'type', selector, text };
+}
+
+export function press(key: string, options: StepBase & { selector?: string } = {}): Step {
+  return { ...options, action: 'press', key };
+}
+
+export function waitFor(selector: string, options: StepBase = {}): Step {
+  return { ...options, action: 'waitFor', selector };
+}
+
+export function evaluate(expression: string, options: StepBase = {}): Step {
+  return { ...options, action: 'evaluate', expression };
+}
+
+export function screenshot(name: string, options: Omit<StepBase, 'name'> = {}): Step {
+  return { ...options, action: 'screenshot', name };
+}
+
+export function defineSteps(steps: Step[]): Step[] {
+  return steps;
+}
+
+// ─── parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Validates a loaded step script. Accepts either an array of steps or `{ steps: [...] }`
+ * and throws an Error naming the first bad step field.
+ */
+export function parseSteps(value: unknown): Step[] {
+  const steps = isRecord(value) && 'steps' in value ? value.steps : value;
+  if (!Array.isArray(steps)) throw new Error('step script must export an array of steps or { steps: [...] }');
+
+  return steps.map((step, i) => {
+    const at = `steps[${i}]`;
+    if (!isRecord(step)) throw new Error(`${at}: expected object`);
+
+    const action = step.action;
+    if (typeof action !== 'string' || !(action in STEP_FIELDS)) {
+      throw new Error(`${at}.action: expected one of ${Object.keys(STEP_FIELDS).join(', ')}`);
+    }
+
+    const fields = STEP_FIELDS[action as StepAction];
+    for (const key of fields.required) {
+      if (typeof step[key] !== 'string') throw new Error(`${at}.${key}: expected string`);
+    }
+    for (const key of fields.optional) {
+      if (step[key] !== undefined && typeof step[key] !== 'string') throw new Error(`${at}.${key}: expected string`);
+    }
+    if (action !== 'screenshot' && step.name !== undefined && typeof step.name !== 'string') {
+      throw new Error(`${at}.name: expected string`);
+    }
+    if (step.timeout !== undefined && (typeof step.timeout !== 'number' || step.timeout <= 0)) {
+      throw new Error(`${at}.timeout: expected positive number`);
+    }
+
+    const known = new Set(['action', 'name', 'timeout', ...fields.required, ...fields.optional]);
+    for (const key of Object.keys(step)) {
+      if (!known.has(key)) throw new Error(`${at}.${key}: unknown key for ${action}`);
+    }
+
+    return step as Step;
+  });
+}
+
+export function describeStep(step: Step, index: number): string {
+  const label = step.name && step.action !== 'screenshot' ? ` "${step.name}"` : '';
+  return `step ${index + 1}${label} (${step.action} ${stepTarget(step)})`;
+}
+
+function stepTarget(step: Step): string {
+  switch (step.action) {
+    case 'click':
+    case 'type':
+    case 'waitFor':
+      return step.selector;
+    case 'press':
+      return step.key;
+    case 'evaluate':
+      return step.expression.length > 40 ? `${step.expression.slice(0, 40)}...` : step.expression;
+    case 'screenshot':
+      return step.name;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
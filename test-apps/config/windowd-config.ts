@@ -1,4 +1,6 @@
-export default {
+import { defineConfig } from 'windowd';
+
+export default defineConfig({
   nw: {
     window: {
       frame: false,
@@ -6,4 +8,4 @@ export default {
       height: 760,
     },
   },
-};
+});
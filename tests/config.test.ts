@@ -0,0 +1,143 @@
+import { test, expect, describe } from 'bun:test';
+import { defineConfig, validateWindowThisConfig } from '../src/config.ts';
+import * as publicApi from '../src/index.ts';
+import packageJson from '../package.json';
+
+// ─── defineConfig ─────────────────────────────────────────────────────────────
+
+describe('defineConfig', () => {
+  test('returns the config unchanged', () => {
+    const config = { nw: { window: { frame: false } } };
+    expect(defineConfig(config)).toBe(config);
+  });
+
+  test('accepts a function config', () => {
+    const config = defineConfig(({ command }) => ({ nw: { window: { frame: command !== 'build' } } }));
+    expect(typeof config).toBe('function');
+  });
+
+  test('is what the package entry point exports', () => {
+    expect(packageJson.exports['.']).toBe('./src/index.ts');
+    expect(publicApi.defineConfig).toBe(defineConfig);
+  });
+});
+
+// ─── validateWindowThisConfig ─────────────────────────────────────────────────
+
+describe('validateWindowThisConfig', () => {
+  test('accepts an empty config', () => {
+    expect(validateWindowThisConfig({})).toEqual([]);
+  });
+
+  test('accepts a full valid config', () => {
+    const problems = validateWindowThisConfig({
+      windows: {
+        inspector: { route: '#/inspector', width: 400, frame: false, options: { resizable: true } },
+      },
+      nw: {
+        window: { frame: false, width: 1100, height: 760, position: 'center' },
+        nodeRemote: ['<all_urls>'],
+        chromiumArgs: '--disable-gpu',
+        manifest: { 'user-agent': 'windowd' },
+      },
+      package: { outDir: 'release', archive: false },
+    });
+    expect(problems).toEqual([]);
+  });
+
+  test('flags unknown keys with their path', () => {
+    const problems = validateWindowThisConfig({ nw: { windows: {} } });
+    expect(problems).toEqual(['nw.windows: unknown key']);
+  });
+
+  test('flags wrong types with their path', () => {
+    const problems = validateWindowThisConfig({
+      nw: { window: { width: '800' }, chromiumArgs: ['--x'] },
+    });
+    expect(problems).toEqual([
+      'nw.window.width: expected number, got string',
+      'nw.chromiumArgs: expected string, got array',
+    ]);
+  });
+
+  test('accepts nodeRemote as string or string array', () => {
+    expect(validateWindowThisConfig({ nw: { nodeRemote: '<all_urls>' } })).toEqual([]);
+    expect(validateWindowThisConfig({ nw: { nodeRemote: ['a', 'b'] } })).toEqual([]);
+    expect(validateWindowThisConfig({ nw: { nodeRemote: [1] } })).toEqual([
+      'nw.nodeRemote: expected string or string[], got array',
+    ]);
+  });
+
+  test('accepts nw.profile as a string or false', () => {
+    expect(validateWindowThisConfig({ nw: { profile: 'work' } })).toEqual([]);
+    expect(validateWindowThisConfig({ nw: { profile: false } })).toEqual([]);
+    expect(validateWindowThisConfig({ nw: { profile: true } })).toEqual([
+      'nw.profile: expected string or false, got boolean',
+    ]);
+  });
+
+  test('accepts nw.nodeMain as a script path', () => {
+    expect(validateWindowThisConfig({ nw: { nodeMain: './main.ts' } })).toEqual([]);
+    expect(validateWindowThisConfig({ nw: { nodeMain: true } })).toEqual(['nw.nodeMain: expected string, got boolean']);
+  });
+
+  test('checks nw.menu items and their rules', () => {
+    expect(validateWindowThisConfig({ nw: { menu: false } })).toEqual([]);
+    expect(validateWindowThisConfig({ nw: { menu: [{ label: 'File', submenu: [{ role: 'quit' }] }] } })).toEqual([]);
+    expect(validateWindowThisConfig({ nw: { menu: [{ label: 'File', submenu: [{ role: 'explode' }] }] } })).toEqual([
+      'nw.menu[0].submenu[0].role: expected one of "undo", "redo", "cut", "copy", "paste", "selectAll", "delete", "reload", "forceReload", "toggleDevTools", "toggleFullscreen", "zoomIn", "zoomOut", "resetZoom", "minimize", "close", "quit"',
+    ]);
+    expect(validateWindowThisConfig({ nw: { menu: [{ label: 'Save', id: 'save' }] } })).toEqual([
+      'nw.menu[0]: top-level menu entries need a submenu',
+    ]);
+    expect(validateWindowThisConfig({ nw: { menu: true } })).toEqual(['nw.menu: expected object[] or false, got boolean']);
+  });
+
+  test('checks nw.tray and its menu items', () => {
+    expect(validateWindowThisConfig({ nw: { tray: { tooltip: 'App', menu: [{ label: 'Show', id: 'show' }], hideOnClose: true } } })).toEqual([]);
+    expect(validateWindowThisConfig({ nw: { tray: { menu: [{ label: 'Show' }] } } })).toEqual([
+      'nw.tray.menu[0]: needs a role or id so clicking it does something',
+    ]);
+    expect(validateWindowThisConfig({ nw: { tray: { menu: false } } })).toEqual(['nw.tray.menu: expected object[], got boolean']);
+  });
+
+  test('checks nw.shortcuts accelerators', () => {
+    expect(validateWindowThisConfig({ nw: { shortcuts: { reload: ['F5'], closeWindow: false, global: { notes: 'CmdOrCtrl+Shift+N' } } } })).toEqual([]);
+    expect(validateWindowThisConfig({ nw: { shortcuts: { reload: 'Hyper+R', zoom: 'CmdOrCtrl+=', global: { notes: false } } } })).toEqual([
+      'nw.shortcuts.reload: unknown modifier "Hyper" in accelerator "Hyper+R"',
+      'nw.shortcuts.zoom: unknown key',
+      'nw.shortcuts.global.notes: expected string, got boolean',
+    ]);
+  });
+
+  test('keeps package.executableName inside the output dir', () => {
+    expect(validateWindowThisConfig({ package: { executableName: 'my-tool' } })).toEqual([]);
+    for (const name of ['../evil', 'bin/tool', 'bin\\tool', '..', '']) {
+      expect(validateWindowThisConfig({ package: { executableName: name } })).toEqual([
+        `package.executableName: expected a file name without path separators, got "${name}"`,
+      ]);
+    }
+    expect(validateWindowThisConfig({ package: { executableName: 5 } })).toEqual([
+      'package.executableName: expected string, got number',
+    ]);
+  });
+
+  test('flags protected manifest keys', () => {
+    const problems = validateWindowThisConfig({ nw: { manifest: { main: 'x.html', 'node-main': 'y.js' } } });
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toStartWith('nw.manifest.main: protected manifest key');
+    expect(problems[1]).toStartWith('nw.manifest.node-main: protected manifest key');
+  });
+
+  test('validates entries of the windows map', () => {
+    const problems = validateWindowThisConfig({ windows: { logs: { html: 5, frme: false } } });
+    expect(problems).toEqual([
+      'windows.logs.html: expected string, got number',
+      'windows.logs.frme: unknown key',
+    ]);
+  });
+
+  test('rejects a non-object config', () => {
+    expect(validateWindowThisConfig([])).toEqual(['(root): expected object, got array']);
+  });
+});
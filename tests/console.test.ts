@@ -0,0 +1,67 @@
+import { test, expect, describe } from 'bun:test';
+import { createConsolePrinter, formatConsoleMessage, isConsoleMessage, type ConsoleMessage } from '../src/console.ts';
+
+function message(text: string, level: ConsoleMessage['level'] = 'log', window = 'main'): ConsoleMessage {
+  return { window, level, text };
+}
+
+// ─── formatConsoleMessage ─────────────────────────────────────────────────────
+
+describe('formatConsoleMessage', () => {
+  test('prefixes the window and pads the level', () => {
+    expect(formatConsoleMessage(message('hello'), false)).toBe('  [main] log   hello');
+    expect(formatConsoleMessage(message('careful', 'warn', 'settings'), false)).toBe('  [settings] warn  careful');
+  });
+
+  test('indents continuation lines under the message', () => {
+    const lines = formatConsoleMessage(message('Error: boom\n    at run (app.ts:1:1)', 'error'), false).split('\n');
+    expect(lines[0]).toBe('  [main] error Error: boom');
+    expect(lines[1]).toBe(' '.repeat(lines[0].indexOf('Error')) + '    at run (app.ts:1:1)');
+  });
+
+  test('colors by level only when asked to', () => {
+    expect(formatConsoleMessage(message('bad', 'error'), true)).toContain('\x1b[31merror\x1b[0m');
+    expect(formatConsoleMessage(message('bad', 'error'), false)).not.toContain('\x1b[');
+  });
+});
+
+// ─── createConsolePrinter ─────────────────────────────────────────────────────
+
+describe('createConsolePrinter', () => {
+  test('collapses back-to-back repeats into one line', () => {
+    const lines: string[] = [];
+    const printer = createConsolePrinter({ write: line => lines.push(line), color: false });
+    for (let i = 0; i < 5; i++) printer.print(message('tick'));
+    printer.print(message('done'));
+    expect(lines).toEqual(['  [main] log   tick', '  [main] repeated 4 more times', '  [main] log   done']);
+  });
+
+  test('treats the same text from another window or level as new', () => {
+    const lines: string[] = [];
+    const printer = createConsolePrinter({ write: line => lines.push(line), color: false });
+    printer.print(message('x'));
+    printer.print(message('x', 'warn'));
+    printer.print(message('x', 'warn', 'other'));
+    expect(lines).toHaveLength(3);
+  });
+
+  test('flush reports pending repeats and starts a new burst', () => {
+    const lines: string[] = [];
+    const printer = createConsolePrinter({ write: line => lines.push(line), color: false });
+    printer.print(message('tick'));
+    printer.print(message('tick'));
+    printer.flush();
+    printer.print(message('tick'));
+    expect(lines).toEqual(['  [main] log   tick', '  [main] repeated 1 more time', '  [main] log   tick']);
+  });
+});
+
+describe('isConsoleMessage', () => {
+  test('accepts known levels only', () => {
+    expect(isConsoleMessage(message('ok'))).toBe(true);
+    expect(isConsoleMessage({ window: 'main', level: 'trace', text: 'x' })).toBe(false);
+    expect(isConsoleMessage({ window: 'main', level: 'log' })).toBe(false);
+    expect(isConsoleMessage({ window: 'main', level: 'toString', text: 'x' })).toBe(false);
+    expect(isConsoleMessage(null)).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { test, expect, describe } from 'bun:test';
+import { parseControlCommand, isSessionState, rpcError, RPC_NO_WINDOW } from '../src/control.ts';
+
+// ─── parseControlCommand ──────────────────────────────────────────────────────
+
+describe('parseControlCommand', () => {
+  test('maps simple commands to methods without params', () => {
+    expect(parseControlCommand(['reload'])).toEqual({ method: 'reload', params: {} });
+    expect(parseControlCommand(['close'])).toEqual({ method: 'close', params: {} });
+  });
+
+  test('joins the rest of the line into the eval code', () => {
+    expect(parseControlCommand(['eval', '1', '+', '2'])).toEqual({ method: 'eval', params: { code: '1 + 2' } });
+    expect(() => parseControlCommand(['eval'])).toThrow('windowd ctl eval <code>');
+  });
+
+  test('accepts resize as two numbers or WxH', () => {
+    expect(parseControlCommand(['resize', '800', '600']).params).toEqual({ width: 800, height: 600 });
+    expect(parseControlCommand(['resize', '1024x768']).params).toEqual({ width: 1024, height: 768 });
+    expect(() => parseControlCommand(['resize', '0x600'])).toThrow('resize');
+    expect(() => parseControlCommand(['resize', 'big'])).toThrow('resize');
+  });
+
+  test('defaults the screenshot file', () => {
+    expect(parseControlCommand(['screenshot']).params).toEqual({ path: 'screenshot.png' });
+    expect(parseControlCommand(['screenshot', 'out/a.png']).params).toEqual({ path: 'out/a.png' });
+  });
+
+  test('rejects unknown commands and stray arguments', () => {
+    expect(() => parseControlCommand([])).toThrow('usage: windowd ctl');
+    expect(() => parseControlCommand(['explode'])).toThrow('unknown ctl command "explode"');
+    expect(() => parseControlCommand(['focus', 'now'])).toThrow('ctl focus takes no arguments');
+  });
+});
+
+describe('isSessionState', () => {
+  test('needs the fields ctl connects with', () => {
+    expect(isSessionState({ pid: 1, port: 4000, token: 'abc', url: 'http://127.0.0.1:5173', startedAt: '' })).toBe(true);
+    expect(isSessionState({ pid: 1, port: 4000, url: 'http://127.0.0.1:5173' })).toBe(false);
+    expect(isSessionState(null)).toBe(false);
+  });
+});
+
+describe('rpcError', () => {
+  test('builds a JSON-RPC error response', () => {
+    expect(rpcError(3, RPC_NO_WINDOW, 'no window')).toEqual({ jsonrpc: '2.0', id: 3, error: { code: RPC_NO_WINDOW, message: 'no window' } });
+  });
+});
@@ -0,0 +1,73 @@
+import { test, expect, describe } from 'bun:test';
+import { compareImages, parseRegion } from '../src/diff.ts';
+import type { RgbaImage } from '../src/png.ts';
+
+function solid(width: number, height: number, rgba: number[]): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { width, height, data };
+}
+
+function pixel(image: RgbaImage, x: number, y: number): number[] {
+  const at = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(at, at + 4));
+}
+
+// ─── parseRegion ──────────────────────────────────────────────────────────────
+
+describe('parseRegion', () => {
+  test('parses x,y,width,height', () => {
+    expect(parseRegion('10, 20,300,40')).toEqual({ x: 10, y: 20, width: 300, height: 40 });
+  });
+
+  test('rejects malformed regions', () => {
+    expect(() => parseRegion('10,20,300')).toThrow('invalid region');
+    expect(() => parseRegion('a,b,c,d')).toThrow('invalid region');
+    expect(() => parseRegion('-1,0,10,10')).toThrow('invalid region');
+  });
+});
+
+// ─── compareImages ────────────────────────────────────────────────────────────
+
+describe('compareImages', () => {
+  const options = { threshold: 0.1, ignoreRegions: [] };
+
+  test('identical images have no mismatches', () => {
+    const result = compareImages(solid(4, 4, [30, 60, 90, 255]), solid(4, 4, [30, 60, 90, 255]), options);
+    expect(result.diffPixels).toBe(0);
+    expect(result.mismatchRatio).toBe(0);
+    expect(result.sizeMismatch).toBe(false);
+  });
+
+  test('counts changed pixels and marks them red in the diff', () => {
+    const actual = solid(4, 4, [255, 255, 255, 255]);
+    actual.data.set([0, 0, 0, 255], (1 * 4 + 2) * 4);
+    const result = compareImages(actual, solid(4, 4, [255, 255, 255, 255]), options);
+    expect(result.diffPixels).toBe(1);
+    expect(result.mismatchRatio).toBe(1 / 16);
+    expect(pixel(result.diff, 2, 1)).toEqual([255, 0, 0, 255]);
+  });
+
+  test('tolerates small color shifts under the threshold', () => {
+    const result = compareImages(solid(2, 2, [100, 100, 100, 255]), solid(2, 2, [104, 104, 104, 255]), options);
+    expect(result.diffPixels).toBe(0);
+    expect(compareImages(solid(2, 2, [100, 100, 100, 255]), solid(2, 2, [104, 104, 104, 255]), { ...options, threshold: 0 }).diffPixels).toBe(4);
+  });
+
+  test('skips ignored regions', () => {
+    const result = compareImages(solid(4, 4, [0, 0, 0, 255]), solid(4, 4, [255, 255, 255, 255]), {
+      threshold: 0.1,
+      ignoreRegions: [parseRegion('0,0,4,2')],
+    });
+    expect(result.ignoredPixels).toBe(8);
+    expect(result.diffPixels).toBe(8);
+    expect(result.comparedPixels).toBe(8);
+  });
+
+  test('treats pixels outside the smaller image as changed', () => {
+    const result = compareImages(solid(3, 2, [0, 0, 0, 255]), solid(2, 2, [0, 0, 0, 255]), options);
+    expect(result.sizeMismatch).toBe(true);
+    expect(result.width).toBe(3);
+    expect(result.diffPixels).toBe(2);
+  });
+});
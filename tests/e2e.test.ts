@@ -4,9 +4,10 @@ import { existsSync, readFileSync, mkdtempSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { assertVisualMatch } from './vision.ts';
 
-const testApps: Record<string, { title: string; appearance: string }> = {
+const testApps: Record<string, { title: string; text: string; appearance: string }> = {
   justhtml: {
     title: 'windowd justhtml',
+    text: 'Because who needs Typescript?',
     appearance:
       'A simple white webpage with dark text. ' +
       "Shows the text 'Because who needs Typescript?' " +
@@ -14,6 +15,7 @@ const testApps: Record<string, { title: string; appearance: string }> = {
   },
   basics: {
     title: 'windowd basics',
+    text: 'basics',
     appearance:
       'A React application demonstrating NW.js integration. ' +
       'Should show platform info, file system demos, and Vite asset handling with images. ' +
@@ -21,12 +23,14 @@ const testApps: Record<string, { title: string; appearance: string }> = {
   },
   config: {
     title: 'windowd config-demo',
+    text: 'config-demo',
     appearance:
       'A React application running in a frameless window (no native OS title bar). ' +
       'Should show content rendered by the config demo app with styled UI elements.',
   },
   deps: {
     title: 'windowd deps',
+    text: 'deps',
     appearance:
       "A dark-themed webpage with a purple 'deps' heading. " +
       "Shows text about third-party npm packages working alongside Node.js APIs. " +
@@ -70,6 +74,11 @@ describe('e2e', () => {
       expect(result.consoleErrors).toHaveLength(0);
       expect(result.title).toBe(expected.title);
 
+      expect(existsSync(join(captureDir, 'dom.html'))).toBe(true);
+      const snapshot = JSON.parse(readFileSync(join(captureDir, 'snapshot.json'), 'utf-8'));
+      const visibleText = snapshot.text.map((entry: { text: string }) => entry.text);
+      expect(visibleText.some((text: string) => text.includes(expected.text))).toBe(true);
+
       const vision = await assertVisualMatch(screenshotPath, expected.appearance);
       const vision2 = (!vision.skipped && !vision.pass)
         ? await assertVisualMatch(screenshotPath, expected.appearance)
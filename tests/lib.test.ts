@@ -4,8 +4,41 @@ import { mkdtempSync, writeFileSync, mkdirSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import {
   parseArgs,
+  resolveMode,
   getTitle,
   getIconPath,
+  toExecutableName,
+  getProjectHash,
+  getWindowdDataDir,
+  getProjectDataDir,
+  resolveProfileDir,
+  resolveCaptureWait,
+  resolveCaptureBaseline,
+  resolveCaptureSizes,
+  captureSizeFile,
+  isStaleCaptureOutput,
+  parseViteErrors,
+  formatCaptureError,
+  resolveAppLogOptions,
+  parseByteSize,
+  resolveHarOptions,
+  resolveStartupTimeout,
+  diagnoseViteOutput,
+  crashBackoffMs,
+  resolveWindowUrl,
+  resolveWindowOpenOptions,
+  getHostInputFiles,
+  hostInputChangeReason,
+  WINDOW_THIS_CONFIGS,
+  snapshotRoleOf,
+  describeSnapshotElement,
+  type SnapshotElement,
+  DEFAULT_LOG_MAX_BYTES,
+  DEFAULT_LOG_MAX_FILES,
+  DEFAULT_CAPTURE_DELAY_MS,
+  DEFAULT_CAPTURE_TIMEOUT_MS,
+  DEFAULT_RUN_SCRIPT_DIR,
+  DEFAULT_STARTUP_TIMEOUT_MS,
   hasTypeScriptSource,
   validateExistingTsConfig,
   isExpectedTsConfigValue,
@@ -28,6 +61,9 @@ describe('parseArgs', () => {
     expect(args.help).toBe(false);
     expect(args.title).toBeUndefined();
     expect(args.capture).toBeUndefined();
+    expect(args.command).toBe('dev');
+    expect(args.positionals).toEqual([]);
+    expect(args.explicitSize).toBe(false);
   });
 
   test('parses long flags', () => {
@@ -36,6 +72,7 @@ describe('parseArgs', () => {
     expect(args.height).toBe(600);
     expect(args.debug).toBe(true);
     expect(args.title).toBe('My App');
+    expect(args.explicitSize).toBe(true);
   });
 
   test('parses short flags', () => {
@@ -63,11 +100,80 @@ describe('parseArgs', () => {
     expect(args.capture).toBe('/tmp/out');
   });
 
+  test('parses capture readiness flags', () => {
+    const args = parseArgs([
+      '--capture', '/out', '--capture-wait', 'ready', '--capture-wait-for', '#app',
+      '--capture-delay', '500', '--capture-timeout', '9000',
+    ]);
+    expect(args.captureWait).toBe('ready');
+    expect(args.captureWaitFor).toBe('#app');
+    expect(args.captureDelay).toBe(500);
+    expect(args.captureTimeout).toBe(9000);
+  });
+
   test('parses --artifacts', () => {
     const args = parseArgs(['--artifacts', '/tmp/artifacts']);
     expect(args.artifacts).toBe('/tmp/artifacts');
   });
 
+  test('parses build command with out dir', () => {
+    const args = parseArgs(['build', 'out/app', '--title', 'App']);
+    expect(args.command).toBe('build');
+    expect(args.positionals).toEqual(['out/app']);
+    expect(args.title).toBe('App');
+  });
+
+  test('parses package command', () => {
+    const args = parseArgs(['package']);
+    expect(args.command).toBe('package');
+    expect(args.positionals).toEqual([]);
+  });
+
+  test('run-script defaults its capture dir', () => {
+    const args = parseArgs(['run-script', 'steps.json']);
+    expect(args.command).toBe('run-script');
+    expect(args.positionals).toEqual(['steps.json']);
+    expect(args.capture).toBe(DEFAULT_RUN_SCRIPT_DIR);
+    expect(parseArgs(['run-script', 'steps.json', '--capture', '/out']).capture).toBe('/out');
+  });
+
+  test('passes everything after a ctl command through unparsed', () => {
+    const args = parseArgs(['ctl', 'eval', '-1', '--title', 'x']);
+    expect(args.command).toBe('ctl');
+    expect(args.positionals).toEqual(['eval', '-1', '--title', 'x']);
+    expect(args.title).toBeUndefined();
+    expect(parseArgs(['--debug', 'ctl', 'eval', '-x']).positionals).toEqual(['eval', '-x']);
+  });
+
+  test('stops parsing options at --', () => {
+    const args = parseArgs(['ctl', '--', 'eval', '-1']);
+    expect(args.command).toBe('ctl');
+    expect(args.positionals).toEqual(['eval', '-1']);
+  });
+
+  test('treats an unknown leading word as a positional', () => {
+    const args = parseArgs(['serve']);
+    expect(args.command).toBe('dev');
+    expect(args.positionals).toEqual(['serve']);
+  });
+
+  test('parses --mode', () => {
+    expect(parseArgs(['--mode', 'staging']).mode).toBe('staging');
+    expect(parseArgs(['-m', 'test']).mode).toBe('test');
+    expect(parseArgs([]).mode).toBeUndefined();
+  });
+
+  test('parses --profile and --fresh-profile', () => {
+    expect(parseArgs(['--profile', 'work']).profile).toBe('work');
+    expect(parseArgs(['--fresh-profile']).freshProfile).toBe(true);
+    expect(parseArgs([]).freshProfile).toBe(false);
+  });
+
+  test('parses --quiet-console', () => {
+    expect(parseArgs(['--quiet-console']).quietConsole).toBe(true);
+    expect(parseArgs([]).quietConsole).toBe(false);
+  });
+
   test('ignores --width without a following value', () => {
     const args = parseArgs(['--width']);
     expect(args.width).toBe(1280);
@@ -82,6 +188,20 @@ describe('parseArgs', () => {
   });
 });
 
+// ─── resolveMode ──────────────────────────────────────────────────────────────
+
+describe('resolveMode', () => {
+  test('defaults to development for dev and production for builds', () => {
+    expect(resolveMode(parseArgs([]))).toBe('development');
+    expect(resolveMode(parseArgs(['build']))).toBe('production');
+    expect(resolveMode(parseArgs(['package']))).toBe('production');
+  });
+
+  test('prefers an explicit --mode', () => {
+    expect(resolveMode(parseArgs(['build', '--mode', 'staging']))).toBe('staging');
+  });
+});
+
 // ─── getTitle ─────────────────────────────────────────────────────────────────
 
 describe('getTitle', () => {
@@ -121,6 +241,379 @@ describe('getIconPath', () => {
   });
 });
 
+// ─── host input watching ──────────────────────────────────────────────────────
+
+describe('getHostInputFiles', () => {
+  test('watches every config name, the detected icon and package.json', () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'windowd-test-inputs-'));
+    writeFileSync(join(tmpDir, 'index.html'), '<link rel="icon" href="/logo.png">');
+    writeFileSync(join(tmpDir, 'logo.png'), '');
+    expect(getHostInputFiles(tmpDir)).toEqual([
+      ...WINDOW_THIS_CONFIGS.map(file => join(tmpDir, file)),
+      join(tmpDir, 'logo.png'),
+      join(tmpDir, 'package.json'),
+    ]);
+  });
+
+  test('leaves the icon out when there is none', () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'windowd-test-inputs-'));
+    expect(getHostInputFiles(tmpDir)).not.toContain(join(tmpDir, 'favicon.ico'));
+    expect(getHostInputFiles(tmpDir)).toHaveLength(WINDOW_THIS_CONFIGS.length + 1);
+  });
+});
+
+describe('hostInputChangeReason', () => {
+  test('restarts for config and icon changes', () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'windowd-test-inputs-'));
+    expect(hostInputChangeReason(join(tmpDir, 'windowd-config.ts'), tmpDir, 'App')).toBe('windowd-config.ts');
+    expect(hostInputChangeReason(join(tmpDir, 'favicon.png'), tmpDir, 'App', 'Flag')).toBe('favicon.png');
+  });
+
+  test('restarts for package.json only when the title changed', () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'windowd-test-inputs-'));
+    const packageJson = join(tmpDir, 'package.json');
+    writeFileSync(packageJson, JSON.stringify({ name: 'app', version: '1.0.1' }));
+    expect(hostInputChangeReason(packageJson, tmpDir, 'app')).toBeNull();
+    writeFileSync(packageJson, JSON.stringify({ name: 'app', windowd: { title: 'My App' } }));
+    expect(hostInputChangeReason(packageJson, tmpDir, 'app')).toBe('package.json');
+    expect(hostInputChangeReason(packageJson, tmpDir, 'app', 'From --title')).toBeNull();
+  });
+});
+
+// ─── toExecutableName ─────────────────────────────────────────────────────────
+
+describe('toExecutableName', () => {
+  test('lowercases and dashes titles', () => {
+    expect(toExecutableName('windowd config-demo')).toBe('windowd-config-demo');
+    expect(toExecutableName('My App (Beta)')).toBe('my-app-beta');
+  });
+
+  test('falls back to app for empty names', () => {
+    expect(toExecutableName('  ')).toBe('app');
+    expect(toExecutableName('!!!')).toBe('app');
+  });
+});
+
+// ─── getProjectHash / getWindowdDataDir ───────────────────────────────────────
+
+describe('getProjectHash', () => {
+  test('is stable and short', () => {
+    expect(getProjectHash('/a/b')).toBe(getProjectHash('/a/b'));
+    expect(getProjectHash('/a/b')).toHaveLength(8);
+    expect(getProjectHash('/a/b')).not.toBe(getProjectHash('/a/c'));
+  });
+});
+
+describe('getWindowdDataDir', () => {
+  test('uses XDG_DATA_HOME on linux', () => {
+    expect(getWindowdDataDir({ XDG_DATA_HOME: '/data' }, 'linux')).toBe(join('/data', 'windowd'));
+  });
+
+  test('uses APPDATA on windows', () => {
+    expect(getWindowdDataDir({ APPDATA: 'C:/Users/me/AppData/Roaming' }, 'win32'))
+      .toBe(join('C:/Users/me/AppData/Roaming', 'windowd'));
+  });
+});
+
+// ─── resolveCaptureWait ───────────────────────────────────────────────────────
+
+describe('resolveCaptureWait', () => {
+  test('defaults to the fixed delay', () => {
+    expect(resolveCaptureWait(parseArgs(['--capture', '/out']))).toEqual({
+      strategy: 'delay',
+      selector: undefined,
+      delayMs: DEFAULT_CAPTURE_DELAY_MS,
+      timeoutMs: DEFAULT_CAPTURE_TIMEOUT_MS,
+    });
+  });
+
+  test('--capture-wait-for implies the selector strategy', () => {
+    const wait = resolveCaptureWait(parseArgs(['--capture-wait-for', '#app .loaded', '--capture-timeout', '5000']));
+    expect(wait.strategy).toBe('selector');
+    expect(wait.selector).toBe('#app .loaded');
+    expect(wait.timeoutMs).toBe(5000);
+  });
+
+  test('accepts ready and network-idle', () => {
+    expect(resolveCaptureWait(parseArgs(['--capture-wait', 'ready'])).strategy).toBe('ready');
+    expect(resolveCaptureWait(parseArgs(['--capture-wait', 'network-idle'])).strategy).toBe('network-idle');
+  });
+
+  test('rejects unknown strategies and selector without a selector', () => {
+    expect(() => resolveCaptureWait(parseArgs(['--capture-wait', 'soon']))).toThrow('unknown --capture-wait strategy');
+    expect(() => resolveCaptureWait(parseArgs(['--capture-wait', 'selector']))).toThrow('--capture-wait-for');
+  });
+
+  test('rejects a delay or timeout that is not a positive number', () => {
+    const wait = (...argv: string[]) => () => resolveCaptureWait(parseArgs(argv));
+    expect(wait('--capture-delay', 'abc')).toThrow('--capture-delay must be a positive number');
+    expect(wait('--capture-delay', '0')).toThrow('--capture-delay must be a positive number');
+    expect(wait('--capture-wait', 'ready', '--capture-timeout', 'abc')).toThrow('--capture-timeout must be a positive number');
+    expect(wait('--capture-wait', 'ready', '--capture-timeout', '-5')).toThrow('--capture-timeout must be a positive number');
+  });
+});
+
+// ─── resolveCaptureSizes ──────────────────────────────────────────────────────
+
+describe('resolveCaptureSizes', () => {
+  test('is off without --capture-sizes', () => {
+    expect(resolveCaptureSizes(parseArgs(['--capture', '/out']))).toBeUndefined();
+  });
+
+  test('parses a comma separated size list', () => {
+    expect(resolveCaptureSizes(parseArgs(['--capture', '/out', '--capture-sizes', '800x600, 1920X1080']))).toEqual([
+      { width: 800, height: 600 },
+      { width: 1920, height: 1080 },
+    ]);
+  });
+
+  test('rejects malformed, zero and duplicate sizes', () => {
+    const sizes = (list: string) => () => resolveCaptureSizes(parseArgs(['--capture', '/out', '--capture-sizes', list]));
+    expect(sizes('800')).toThrow('expected <width>x<height>');
+    expect(sizes('0x600')).toThrow('expected <width>x<height>');
+    expect(sizes('800x600,800x600')).toThrow('twice');
+    expect(() => resolveCaptureSizes(parseArgs(['--capture-sizes', '800x600']))).toThrow('needs --capture');
+  });
+
+  test('names one screenshot per size', () => {
+    expect(captureSizeFile({ width: 1280, height: 800 })).toBe('screenshot-1280x800.png');
+  });
+});
+
+// ─── isStaleCaptureOutput ─────────────────────────────────────────────────────
+
+describe('isStaleCaptureOutput', () => {
+  test('clears the capture result and DOM snapshot', () => {
+    expect(isStaleCaptureOutput('result.json')).toBe(true);
+    expect(isStaleCaptureOutput('dom.html')).toBe(true);
+    expect(isStaleCaptureOutput('snapshot.json')).toBe(true);
+  });
+
+  test('clears screenshots and baseline diffs', () => {
+    expect(isStaleCaptureOutput('screenshot.png')).toBe(true);
+    expect(isStaleCaptureOutput('screenshot-800x600.png')).toBe(true);
+    expect(isStaleCaptureOutput('diff.png')).toBe(true);
+    expect(isStaleCaptureOutput('diff-800x600.png')).toBe(true);
+  });
+
+  test('clears the step log and step screenshots', () => {
+    expect(isStaleCaptureOutput('steps.json')).toBe(true);
+    expect(isStaleCaptureOutput('03-saved.png')).toBe(true);
+    expect(isStaleCaptureOutput('04-failed.png')).toBe(true);
+  });
+
+  test('keeps files no run writes', () => {
+    expect(isStaleCaptureOutput('notes.json')).toBe(false);
+    expect(isStaleCaptureOutput('logo.png')).toBe(false);
+    expect(isStaleCaptureOutput('screenshots.png')).toBe(false);
+    expect(isStaleCaptureOutput('2024-report.pdf')).toBe(false);
+  });
+});
+
+// ─── parseViteErrors ──────────────────────────────────────────────────────────
+
+describe('parseViteErrors', () => {
+  test('picks up transform errors with their file location', () => {
+    const output = [
+      '\x1b[2m2:31:07 PM\x1b[22m \x1b[31m\x1b[1m[vite]\x1b[22m Internal server error: Transform failed with 1 error:\x1b[39m',
+      '/app/src/main.tsx:3:9: ERROR: Expected ";" but found "world"',
+      '  Plugin: vite:esbuild',
+      '  File: /app/src/main.tsx:3:9',
+      '',
+    ].join('\n');
+    expect(parseViteErrors(output)).toEqual([{
+      source: 'vite',
+      message: 'Internal server error: Transform failed with 1 error: /app/src/main.tsx:3:9: ERROR: Expected ";" but found "world"',
+      file: '/app/src/main.tsx',
+      line: 3,
+      column: 9,
+    }]);
+  });
+
+  test('handles pre-transform errors without a location', () => {
+    const output = '2:31:07 PM [vite] Pre-transform error: Failed to resolve import "./nope" from "src/main.tsx". Does the file exist?\n';
+    expect(parseViteErrors(output)).toEqual([{
+      source: 'vite',
+      message: 'Pre-transform error: Failed to resolve import "./nope" from "src/main.tsx". Does the file exist?',
+    }]);
+  });
+
+  test('ignores ordinary dev server output', () => {
+    expect(parseViteErrors('  VITE v6.0.0  ready in 120 ms\n2:31:07 PM [vite] hmr update /src/App.tsx\n')).toEqual([]);
+  });
+});
+
+describe('formatCaptureError', () => {
+  test('appends the location when known', () => {
+    expect(formatCaptureError({ source: 'renderer', message: 'x is not defined', file: 'src/a.ts', line: 2, column: 5 }))
+      .toBe('[renderer] x is not defined (src/a.ts:2:5)');
+    expect(formatCaptureError({ source: 'resource', message: 'failed to load /a.js' })).toBe('[resource] failed to load /a.js');
+  });
+});
+
+// ─── vite startup ─────────────────────────────────────────────────────────────
+
+describe('resolveStartupTimeout', () => {
+  test('defaults and accepts --startup-timeout', () => {
+    expect(resolveStartupTimeout(parseArgs([]))).toBe(DEFAULT_STARTUP_TIMEOUT_MS);
+    expect(resolveStartupTimeout(parseArgs(['--startup-timeout', '60000']))).toBe(60000);
+  });
+
+  test('rejects values that are not positive', () => {
+    expect(() => resolveStartupTimeout(parseArgs(['--startup-timeout', '0']))).toThrow('--startup-timeout');
+    expect(() => resolveStartupTimeout(parseArgs(['--startup-timeout', 'soon']))).toThrow('--startup-timeout');
+  });
+});
+
+describe('diagnoseViteOutput', () => {
+  test('spots a missing dependency', () => {
+    const output = "failed to load config from /app/vite.config.ts\nerror during start:\nError: Cannot find package '@vitejs/plugin-react' imported from /app/vite.config.ts";
+    expect(diagnoseViteOutput(output)).toContain('missing dependency "@vitejs/plugin-react"');
+    expect(diagnoseViteOutput("Error: Cannot find module './plugins/local'")).toContain('check the import path');
+  });
+
+  test('spots a config syntax error', () => {
+    const output = '\x1b[31mfailed to load config from /app/vite.config.ts\x1b[39m\nerror during start:\nError: Transform failed with 1 error:\n/app/vite.config.ts:4:2: ERROR: Expected "}" but found ")"';
+    expect(diagnoseViteOutput(output)).toBe('syntax error in vite.config');
+  });
+
+  test('spots a port that is already taken', () => {
+    expect(diagnoseViteOutput('error when starting dev server:\nError: Port 5173 is already in use')).toContain('port 5173 is already in use');
+  });
+
+  test('returns null for output it does not recognise', () => {
+    expect(diagnoseViteOutput('  VITE v7.0.0  ready in 120 ms')).toBeNull();
+  });
+});
+
+describe('crashBackoffMs', () => {
+  test('doubles per crash in a row up to 30s', () => {
+    expect([1, 2, 3, 4].map(crashBackoffMs)).toEqual([1000, 2000, 4000, 8000]);
+    expect(crashBackoffMs(10)).toBe(30000);
+  });
+});
+
+// ─── resolveAppLogOptions ─────────────────────────────────────────────────────
+
+describe('resolveAppLogOptions', () => {
+  test('defaults to text with 8mb rotation', () => {
+    expect(resolveAppLogOptions(parseArgs([]), '/out/app.log')).toEqual({
+      path: '/out/app.log',
+      format: 'text',
+      maxBytes: DEFAULT_LOG_MAX_BYTES,
+      maxFiles: DEFAULT_LOG_MAX_FILES,
+    });
+  });
+
+  test('reads format, size and file count flags', () => {
+    const options = resolveAppLogOptions(
+      parseArgs(['--log-format', 'json', '--log-max-size', '512k', '--log-max-files', '0']),
+      '/out/app.log',
+    );
+    expect(options).toEqual({ path: '/out/app.log', format: 'json', maxBytes: 512 * 1024, maxFiles: 0 });
+  });
+
+  test('rejects unknown formats and bad counts', () => {
+    expect(() => resolveAppLogOptions(parseArgs(['--log-format', 'yaml']), 'a')).toThrow('unknown --log-format');
+    expect(() => resolveAppLogOptions(parseArgs(['--log-max-files', '-1']), 'a')).toThrow('--log-max-files');
+  });
+});
+
+describe('resolveHarOptions', () => {
+  test('leaves bodies out and Vite traffic filtered by default', () => {
+    expect(resolveHarOptions(parseArgs([]), '/out/network.har')).toEqual({
+      path: '/out/network.har',
+      bodyLimit: 0,
+      includeVite: false,
+    });
+  });
+
+  test('caps bodies at --har-bodies', () => {
+    const options = resolveHarOptions(parseArgs(['--har-bodies', '64k', '--har-include-vite']), '/out/network.har');
+    expect(options.bodyLimit).toBe(64 * 1024);
+    expect(options.includeVite).toBe(true);
+  });
+});
+
+describe('parseByteSize', () => {
+  test('accepts plain bytes and k/m/g suffixes', () => {
+    expect(parseByteSize('1048576')).toBe(1048576);
+    expect(parseByteSize('512k')).toBe(512 * 1024);
+    expect(parseByteSize('8mb')).toBe(8 * 1024 * 1024);
+    expect(parseByteSize('1.5M')).toBe(1.5 * 1024 * 1024);
+    expect(parseByteSize('1G')).toBe(1024 ** 3);
+  });
+
+  test('rejects zero and garbage', () => {
+    expect(() => parseByteSize('0')).toThrow('invalid size');
+    expect(() => parseByteSize('lots')).toThrow('invalid size');
+  });
+});
+
+// ─── resolveCaptureBaseline ───────────────────────────────────────────────────
+
+describe('resolveCaptureBaseline', () => {
+  test('is off without --capture-baseline', () => {
+    expect(resolveCaptureBaseline(parseArgs(['--capture', '/out']))).toBeUndefined();
+  });
+
+  test('collects threshold and repeated ignore regions', () => {
+    const baseline = resolveCaptureBaseline(parseArgs([
+      '--capture', '/out', '--capture-baseline', 'baselines', '--baseline-threshold', '0.2',
+      '--baseline-ignore', '0,0,100,20', '--baseline-ignore', '10,500,50,50', '--update-baseline',
+    ]));
+    expect(baseline).toEqual({
+      dir: 'baselines',
+      update: true,
+      threshold: 0.2,
+      ignoreRegions: [
+        { x: 0, y: 0, width: 100, height: 20 },
+        { x: 10, y: 500, width: 50, height: 50 },
+      ],
+    });
+  });
+
+  test('rejects flags it cannot honour', () => {
+    expect(() => resolveCaptureBaseline(parseArgs(['--capture-baseline', 'b']))).toThrow('needs --capture');
+    expect(() => resolveCaptureBaseline(parseArgs(['--capture', '/out', '--update-baseline']))).toThrow('needs --capture-baseline');
+    expect(() => resolveCaptureBaseline(parseArgs(['--capture', '/out', '--capture-baseline', 'b', '--baseline-threshold', '2'])))
+      .toThrow('between 0 and 1');
+    expect(() => resolveCaptureBaseline(parseArgs(['--capture', '/out', '--capture-baseline', 'b', '--baseline-ignore', '1,2,3'])))
+      .toThrow('invalid region');
+  });
+});
+
+// ─── resolveProfileDir ────────────────────────────────────────────────────────
+
+describe('resolveProfileDir', () => {
+  const cwd = resolve('/projects/app');
+  const profilesDir = join(getProjectDataDir(cwd), 'profiles');
+
+  test('defaults to a per-project default profile', () => {
+    expect(resolveProfileDir(cwd, parseArgs([]))).toBe(join(profilesDir, 'default'));
+  });
+
+  test('uses named profiles from flag or config, flag first', () => {
+    expect(resolveProfileDir(cwd, parseArgs([]), 'work')).toBe(join(profilesDir, 'work'));
+    expect(resolveProfileDir(cwd, parseArgs(['--profile', 'qa']), 'work')).toBe(join(profilesDir, 'qa'));
+  });
+
+  test('resolves path-like profiles against the project dir', () => {
+    expect(resolveProfileDir(cwd, parseArgs(['--profile', './.profile']))).toBe(join(cwd, '.profile'));
+    expect(resolveProfileDir(cwd, parseArgs(['--profile', '/tmp/p']))).toBe(resolve('/tmp/p'));
+  });
+
+  test('returns null for ephemeral profiles', () => {
+    expect(resolveProfileDir(cwd, parseArgs(['--fresh-profile', '--profile', 'qa']))).toBeNull();
+    expect(resolveProfileDir(cwd, parseArgs([]), false)).toBeNull();
+    expect(resolveProfileDir(cwd, parseArgs(['--capture', '/out']), 'work')).toBeNull();
+  });
+
+  test('capture runs honour an explicit --profile', () => {
+    expect(resolveProfileDir(cwd, parseArgs(['--capture', '/out', '--profile', 'qa']))).toBe(join(profilesDir, 'qa'));
+  });
+});
+
 // ─── hasTypeScriptSource ──────────────────────────────────────────────────────
 
 describe('hasTypeScriptSource', () => {
@@ -206,3 +699,81 @@ describe('isExpectedTsConfigValue', () => {
     expect(isExpectedTsConfigValue('noEmit', false, true)).toBe(false);
   });
 });
+
+// ─── resolveWindowUrl ─────────────────────────────────────────────────────────
+
+describe('resolveWindowUrl', () => {
+  const base = 'http://localhost:5173/?windowThisProjectDir=%2Fapp';
+
+  test('swaps the hash for #routes', () => {
+    expect(resolveWindowUrl({ route: '#/logs' }, base, 'logs'))
+      .toBe('http://localhost:5173/?windowThisProjectDir=%2Fapp&windowdWindow=logs#/logs');
+  });
+
+  test('resolves html entries and keeps windowd params', () => {
+    expect(resolveWindowUrl({ html: 'inspector.html?tab=1' }, base, 'inspector'))
+      .toBe('http://localhost:5173/inspector.html?tab=1&windowThisProjectDir=%2Fapp&windowdWindow=inspector');
+    expect(resolveWindowUrl({ route: '/settings' }, 'file:///app/index.html', 'settings'))
+      .toBe('file:///settings?windowdWindow=settings');
+  });
+});
+
+// ─── resolveWindowOpenOptions ─────────────────────────────────────────────────
+
+describe('resolveWindowOpenOptions', () => {
+  test('prefixes the id and lets the definition win over options', () => {
+    expect(resolveWindowOpenOptions('logs', { title: 'Logs', width: 400, frame: false, options: { width: 900, resizable: false } }))
+      .toEqual({ id: 'windowd-logs', title: 'Logs', width: 400, frame: false, resizable: false });
+    expect(resolveWindowOpenOptions('bare', {})).toEqual({ id: 'windowd-bare' });
+  });
+});
+
+// ─── capture snapshot helpers ─────────────────────────────────────────────────
+
+function element(tagName: string, attributes: Record<string, string> = {}, props: Partial<SnapshotElement> = {}): SnapshotElement {
+  return {
+    tagName,
+    id: attributes.id ?? '',
+    parentElement: null,
+    getAttribute: name => attributes[name] ?? null,
+    hasAttribute: name => name in attributes,
+    ...props,
+  };
+}
+
+describe('snapshotRoleOf', () => {
+  test('prefers the first token of an explicit role', () => {
+    expect(snapshotRoleOf(element('DIV', { role: ' tab button' }))).toBe('tab');
+  });
+
+  test('maps tags to their implicit roles', () => {
+    expect(snapshotRoleOf(element('A', { href: '/files' }))).toBe('link');
+    expect(snapshotRoleOf(element('A'))).toBeNull();
+    expect(snapshotRoleOf(element('NAV'))).toBe('navigation');
+    expect(snapshotRoleOf(element('OL'))).toBe('list');
+    expect(snapshotRoleOf(element('SELECT'))).toBe('combobox');
+    expect(snapshotRoleOf(element('SELECT', {}, { multiple: true }))).toBe('listbox');
+    expect(snapshotRoleOf(element('SPAN'))).toBeNull();
+  });
+
+  test('maps input types', () => {
+    expect(snapshotRoleOf(element('INPUT'))).toBe('textbox');
+    expect(snapshotRoleOf(element('INPUT', { type: 'Checkbox' }))).toBe('checkbox');
+    expect(snapshotRoleOf(element('INPUT', { type: 'submit' }))).toBe('button');
+    expect(snapshotRoleOf(element('INPUT', { type: 'range' }))).toBe('slider');
+    expect(snapshotRoleOf(element('INPUT', { type: 'hidden' }))).toBeNull();
+  });
+
+  test('treats only the root of a contenteditable region as a textbox', () => {
+    const root = element('DIV', {}, { isContentEditable: true });
+    expect(snapshotRoleOf(root)).toBe('textbox');
+    expect(snapshotRoleOf(element('P', {}, { isContentEditable: true, parentElement: root }))).toBeNull();
+  });
+});
+
+describe('describeSnapshotElement', () => {
+  test('labels elements by tag, id and first two classes', () => {
+    expect(describeSnapshotElement(element('BUTTON', { id: 'save', class: ' primary  large wide' }))).toBe('button#save.primary.large');
+    expect(describeSnapshotElement(element('LI'))).toBe('li');
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect, describe } from 'bun:test';
+import { parseAccelerator, findMenuProblems, resolveMenu, resolveTrayMenu } from '../src/menu.ts';
+import type { MenuItemDefinition } from '../src/lib.ts';
+
+const FILE_MENU: MenuItemDefinition = { label: 'File', submenu: [{ label: 'Save', id: 'save', accelerator: 'CmdOrCtrl+S' }] };
+
+// ─── parseAccelerator ─────────────────────────────────────────────────────────
+
+describe('parseAccelerator', () => {
+  test('maps CmdOrCtrl to the platform modifier', () => {
+    expect(parseAccelerator('CmdOrCtrl+Shift+S', 'darwin')).toEqual({ key: 's', modifiers: 'cmd+shift' });
+    expect(parseAccelerator('CmdOrCtrl+Shift+S', 'win32')).toEqual({ key: 's', modifiers: 'ctrl+shift' });
+  });
+
+  test('keeps named keys and binds the plus key', () => {
+    expect(parseAccelerator('F11', 'linux')).toEqual({ key: 'F11', modifiers: '' });
+    expect(parseAccelerator('Ctrl++', 'linux')).toEqual({ key: '+', modifiers: 'ctrl' });
+  });
+
+  test('rejects unknown modifiers and missing keys', () => {
+    expect(() => parseAccelerator('Hyper+K', 'linux')).toThrow('unknown modifier "Hyper"');
+    expect(() => parseAccelerator('Ctrl+', 'linux')).toThrow('invalid accelerator');
+  });
+});
+
+describe('findMenuProblems', () => {
+  test('accepts a menu of submenus with roles and ids', () => {
+    expect(findMenuProblems([FILE_MENU, { label: 'View', submenu: [{ role: 'reload' }, { type: 'separator' }] }])).toEqual([]);
+  });
+
+  test('reports items that can do nothing', () => {
+    expect(findMenuProblems([
+      { label: 'Save', id: 'save' },
+      { label: 'File', submenu: [{ label: 'Nothing' }, { id: 'unnamed' }, { role: 'copy', accelerator: 'Hyper+C' }] },
+    ])).toEqual([
+      'nw.menu[0]: top-level menu entries need a submenu',
+      'nw.menu[1].submenu[0]: needs a role or id so clicking it does something',
+      'nw.menu[1].submenu[1]: needs a label',
+      'nw.menu[1].submenu[2].accelerator: unknown modifier "Hyper" in accelerator "Hyper+C"',
+    ]);
+  });
+});
+
+describe('resolveMenu', () => {
+  test('adds the Edit menu after a leading File menu', () => {
+    const plan = resolveMenu([FILE_MENU, { label: 'View', submenu: [{ role: 'reload' }] }], 'linux', 'App')!;
+    expect(plan.items.map(item => item.label)).toEqual(['File', 'Edit', 'View']);
+    expect(plan.items[1].submenu!.find(item => item.role === 'paste')).toMatchObject({ label: 'Paste', key: 'v', modifiers: 'ctrl' });
+    expect(plan.items[0].submenu![0]).toEqual({ type: 'normal', label: 'Save', id: 'save', key: 's', modifiers: 'ctrl', enabled: true, checked: false });
+    expect(plan.macBuiltin).toBeNull();
+  });
+
+  test('keeps a configured Edit menu as is', () => {
+    const plan = resolveMenu([{ label: 'Edit', submenu: [{ role: 'copy' }] }], 'win32', 'App')!;
+    expect(plan.items.map(item => item.label)).toEqual(['Edit']);
+  });
+
+  test('uses the built-in macOS menus, hiding their Edit menu when the config has one', () => {
+    expect(resolveMenu(undefined, 'darwin', 'App')).toEqual({ items: [], macBuiltin: { appName: 'App', hideEdit: false } });
+    const plan = resolveMenu([{ label: 'Edit', submenu: [{ role: 'copy' }] }], 'darwin', 'App')!;
+    expect(plan.macBuiltin).toEqual({ appName: 'App', hideEdit: true });
+    expect(plan.items[0].submenu![0]).toMatchObject({ key: 'c', modifiers: 'cmd' });
+  });
+
+  test('leaves other platforms without a menu bar unless one is configured', () => {
+    expect(resolveMenu(undefined, 'linux', 'App')).toBeNull();
+    expect(resolveMenu(undefined, 'win32', 'App')).toBeNull();
+    expect(resolveMenu(false, 'darwin', 'App')).toBeNull();
+  });
+});
+
+describe('resolveTrayMenu', () => {
+  test('ends the menu with Quit', () => {
+    const items = resolveTrayMenu([{ label: 'New note', id: 'new-note' }], 'linux');
+    expect(items.map(item => item.type)).toEqual(['normal', 'separator', 'normal']);
+    expect(items[2]).toMatchObject({ role: 'quit', label: 'Quit', key: 'q', modifiers: 'ctrl' });
+    expect(resolveTrayMenu(undefined, 'linux').map(item => item.role)).toEqual(['quit']);
+  });
+
+  test('keeps a configured Quit where it is', () => {
+    const items = resolveTrayMenu([{ role: 'quit', label: 'Exit' }, { label: 'Show', id: 'show' }], 'darwin');
+    expect(items.map(item => item.label)).toEqual(['Exit', 'Show']);
+  });
+});
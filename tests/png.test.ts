@@ -0,0 +1,82 @@
+import { test, expect, describe } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { deflateSync } from 'node:zlib';
+import { decodePng, encodePng, type RgbaImage } from '../src/png.ts';
+
+function pixel(image: RgbaImage, x: number, y: number): number[] {
+  const at = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(at, at + 4));
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(Bun.hash.crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+// Builds a PNG from already-filtered scanlines so the decoder's filter and depth handling can be checked.
+function rawPng(width: number, height: number, bitDepth: number, colorType: number, rows: number[][], extra: Buffer[] = []) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    ...extra,
+    chunk('IDAT', deflateSync(Buffer.from(rows.flat()))),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// ─── decodePng ────────────────────────────────────────────────────────────────
+
+describe('decodePng', () => {
+  test('decodes the bundled default icon', () => {
+    const image = decodePng(readFileSync(resolve(import.meta.dir, '..', 'assets', 'default-icon.png')));
+    expect(image.width).toBe(16);
+    expect(image.height).toBe(16);
+    expect(image.data.length).toBe(16 * 16 * 4);
+  });
+
+  test('round-trips encodePng output', () => {
+    const image: RgbaImage = { width: 3, height: 2, data: new Uint8Array(3 * 2 * 4).fill(90) };
+    image.data.set([200, 100, 50, 128], 4);
+    expect(decodePng(encodePng(image))).toEqual(image);
+  });
+
+  test('undoes sub, up, average and paeth filters on RGB rows', () => {
+    const png = rawPng(2, 4, 8, 2, [
+      [1, 10, 20, 30, 5, 5, 5],
+      [2, 1, 1, 1, 1, 1, 1],
+      [3, 0, 0, 0, 10, 10, 10],
+      [4, 0, 0, 0, 0, 0, 0],
+    ]);
+    const image = decodePng(png);
+    expect(pixel(image, 1, 0)).toEqual([15, 25, 35, 255]);
+    expect(pixel(image, 0, 1)).toEqual([11, 21, 31, 255]);
+    expect(pixel(image, 1, 2)).toEqual([20, 28, 35, 255]);
+    expect(pixel(image, 0, 3)).toEqual([5, 10, 15, 255]);
+    expect(pixel(image, 1, 3)).toEqual([20, 28, 35, 255]);
+  });
+
+  test('expands 2-bit indexed pixels through the palette and tRNS', () => {
+    const png = rawPng(3, 1, 2, 3, [[0, 0b00011000]], [
+      chunk('PLTE', Buffer.from([255, 0, 0, 0, 255, 0, 0, 0, 255])),
+      chunk('tRNS', Buffer.from([0])),
+    ]);
+    const image = decodePng(png);
+    expect(pixel(image, 0, 0)).toEqual([255, 0, 0, 0]);
+    expect(pixel(image, 1, 0)).toEqual([0, 255, 0, 255]);
+    expect(pixel(image, 2, 0)).toEqual([0, 0, 255, 255]);
+  });
+
+  test('rejects files that are not PNGs', () => {
+    expect(() => decodePng(Buffer.from('GIF89a'))).toThrow('not a PNG file');
+  });
+});
@@ -0,0 +1,60 @@
+import { test, expect, describe, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createContext, runInContext, type Context } from 'node:vm';
+import { buildConsolePreloadJs, buildLogPreloadJs, PRELOAD_FILE } from '../src/preload.ts';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'windowd-preload-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// Runs the sections as NW.js would, joined into one windowd-preload.js, in a bare page-like realm.
+function loadPreload(sections: string[]): Context {
+  const context = createContext({
+    require: createRequire(import.meta.url),
+    location: { search: '' },
+    URLSearchParams,
+    setTimeout: () => 0,
+    addEventListener: () => {},
+    console: { log() {}, info() {}, warn() {}, error() {}, debug() {} },
+  });
+  runInContext(sections.join('\n'), context, { filename: join(dir, PRELOAD_FILE) });
+  return context;
+}
+
+describe('app.log preload', () => {
+  test('records the app file that called console.*, under the terminal forwarding hook', () => {
+    const logPath = join(dir, 'app.log');
+    const context = loadPreload([
+      buildLogPreloadJs({ path: logPath, format: 'json', maxBytes: 1e6, maxFiles: 0 }),
+      buildConsolePreloadJs('http://127.0.0.1:9/'),
+    ]);
+    runInContext('\nconsole.log("hello");', context, { filename: '/app/src/main.js' });
+
+    const records = readFileSync(logPath, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(records.at(-1).message).toBe('hello');
+    expect(records.at(-1).source).toMatch(/^\/app\/src\/main\.js:2:\d+$/);
+  });
+
+  test('records calls from a user inject_js_start script appended to the preload', () => {
+    const logPath = join(dir, 'app.log');
+    const sections = [
+      buildLogPreloadJs({ path: logPath, format: 'json', maxBytes: 1e6, maxFiles: 0 }),
+      buildConsolePreloadJs('http://127.0.0.1:9/'),
+    ];
+    const injectLine = sections.join('\n').split('\n').length + 2;
+    loadPreload([...sections, '// inject.js\nconsole.log("from inject");']);
+
+    const records = readFileSync(logPath, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(records.at(-1).message).toBe('from inject');
+    expect(records.at(-1).source).toMatch(new RegExp(`${PRELOAD_FILE.replace('.', '\\.')}:${injectLine}:\\d+$`));
+  });
+});
@@ -0,0 +1,57 @@
+import { test, expect, describe } from 'bun:test';
+import { replSocketPath, isIncompleteInput, isReplResponse, hoistDeclarations } from '../src/repl.ts';
+
+// ─── replSocketPath ───────────────────────────────────────────────────────────
+
+describe('replSocketPath', () => {
+  test('uses a socket file in the temp dir on unix', () => {
+    expect(replSocketPath('0123456789abcdef', 'linux', '/tmp')).toBe('/tmp/windowd-repl-0123456789ab.sock');
+  });
+
+  test('uses a named pipe on Windows', () => {
+    expect(replSocketPath('0123456789abcdef', 'win32')).toBe('\\\\.\\pipe\\windowd-repl-0123456789ab');
+  });
+});
+
+describe('isIncompleteInput', () => {
+  test('waits for more lines while a block or template is open', () => {
+    expect(isIncompleteInput('function f() {')).toBe(true);
+    expect(isIncompleteInput('1 +')).toBe(true);
+    expect(isIncompleteInput('`line one')).toBe(true);
+  });
+
+  test('sends complete input and real syntax errors right away', () => {
+    expect(isIncompleteInput('document.title')).toBe(false);
+    expect(isIncompleteInput('function f() {\n  return 1;\n}')).toBe(false);
+    expect(isIncompleteInput('1 +* 2')).toBe(false);
+    expect(isIncompleteInput('await fetch("/")')).toBe(false);
+  });
+});
+
+describe('isReplResponse', () => {
+  test('needs an id and an output or error', () => {
+    expect(isReplResponse({ id: 1, output: "'hi'" })).toBe(true);
+    expect(isReplResponse({ id: 2, error: 'Uncaught 5' })).toBe(true);
+    expect(isReplResponse({ id: 3 })).toBe(false);
+    expect(isReplResponse('nope')).toBe(false);
+  });
+});
+
+// ─── hoistDeclarations ────────────────────────────────────────────────────────
+
+describe('hoistDeclarations', () => {
+  test('turns top-level declarations into vars', () => {
+    expect(hoistDeclarations('const x = 1')).toBe('var x = 1');
+    expect(hoistDeclarations('let { a, b } = obj; const [c] = d')).toBe('var { a, b } = obj; var [c] = d');
+    expect(hoistDeclarations('x\nlet y = 2')).toBe('x\nvar y = 2');
+    expect(hoistDeclarations('class Foo { m() { const y = 2 } }')).toBe('var Foo = class Foo { m() { const y = 2 } }');
+  });
+
+  test('leaves nested declarations, strings, comments and regexes alone', () => {
+    expect(hoistDeclarations('if (x) { const y = 1 }')).toBe('if (x) { const y = 1 }');
+    expect(hoistDeclarations('for (let i = 0; i < 3; i++) {}')).toBe('for (let i = 0; i < 3; i++) {}');
+    expect(hoistDeclarations('const s = "; const q"; // const c')).toBe('var s = "; const q"; // const c');
+    expect(hoistDeclarations('t = `${ { a: 1 }.a }; let`; const r = /[/]; const/g')).toBe('t = `${ { a: 1 }.a }; let`; var r = /[/]; const/g');
+    expect(hoistDeclarations('a = b / 2; let = 5')).toBe('a = b / 2; let = 5');
+  });
+});
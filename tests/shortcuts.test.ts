@@ -0,0 +1,45 @@
+import { test, expect, describe } from 'bun:test';
+import { resolveShortcuts, toNwShortcutKey } from '../src/shortcuts.ts';
+
+describe('resolveShortcuts', () => {
+  test('uses the built-in keymap by default', () => {
+    const { keys, global } = resolveShortcuts(undefined, 'linux');
+    expect(keys).toContainEqual({ action: 'reload', key: 'r', modifiers: 'ctrl' });
+    expect(keys).toContainEqual({ action: 'hardReload', key: 'r', modifiers: 'ctrl+shift' });
+    expect(keys).toContainEqual({ action: 'devTools', key: 'f12', modifiers: '' });
+    expect(keys).toContainEqual({ action: 'zoomIn', key: '+', modifiers: 'ctrl' });
+    expect(keys).toContainEqual({ action: 'toggleFullscreen', key: 'f11', modifiers: '' });
+    expect(global).toEqual([]);
+  });
+
+  test('uses Cmd and Ctrl+Cmd+F on macOS', () => {
+    const { keys } = resolveShortcuts(undefined, 'darwin');
+    expect(keys).toContainEqual({ action: 'closeWindow', key: 'w', modifiers: 'cmd' });
+    expect(keys.filter(binding => binding.action === 'toggleFullscreen')).toEqual([
+      { action: 'toggleFullscreen', key: 'f', modifiers: 'cmd+ctrl' },
+    ]);
+  });
+
+  test('remaps and disables actions, putting configured chords first', () => {
+    const { keys } = resolveShortcuts({ hardReload: 'Shift+CmdOrCtrl+R', reload: ['F5'], closeWindow: false }, 'win32');
+    expect(keys.slice(0, 2)).toEqual([
+      { action: 'reload', key: 'f5', modifiers: '' },
+      { action: 'hardReload', key: 'r', modifiers: 'ctrl+shift' },
+    ]);
+    expect(keys.some(binding => binding.action === 'closeWindow')).toBe(false);
+    expect(keys.some(binding => binding.action === 'reload' && binding.key === 'r')).toBe(false);
+  });
+
+  test('turns global shortcuts into nw.Shortcut keys', () => {
+    const { global } = resolveShortcuts({ global: { 'show-notes': 'CmdOrCtrl+Shift+N' } }, 'darwin');
+    expect(global).toEqual([{ id: 'show-notes', key: 'Command+Shift+N' }]);
+  });
+});
+
+describe('toNwShortcutKey', () => {
+  test('orders modifiers and names keys the way nw.Shortcut expects', () => {
+    expect(toNwShortcutKey('Shift+Alt+,', 'linux')).toBe('Alt+Shift+Comma');
+    expect(toNwShortcutKey('CmdOrCtrl+f5', 'linux')).toBe('Ctrl+F5');
+    expect(toNwShortcutKey('Ctrl+Space', 'win32')).toBe('Ctrl+Space');
+  });
+});
@@ -0,0 +1,63 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  click, type, press, waitFor, evaluate, screenshot, defineSteps, parseSteps, describeStep,
+} from '../src/steps.ts';
+
+// ─── builders ─────────────────────────────────────────────────────────────────
+
+describe('step builders', () => {
+  test('build plain step objects', () => {
+    expect(defineSteps([
+      click('#open'),
+      type('input[name=q]', 'hello'),
+      press('Enter', { selector: 'input[name=q]' }),
+      waitFor('.dialog', { timeout: 2000 }),
+      evaluate('document.title'),
+      screenshot('dialog'),
+    ])).toEqual([
+      { action: 'click', selector: '#open' },
+      { action: 'type', selector: 'input[name=q]', text: 'hello' },
+      { action: 'press', key: 'Enter', selector: 'input[name=q]' },
+      { action: 'waitFor', selector: '.dialog', timeout: 2000 },
+      { action: 'evaluate', expression: 'document.title' },
+      { action: 'screenshot', name: 'dialog' },
+    ]);
+  });
+});
+
+// ─── parseSteps ───────────────────────────────────────────────────────────────
+
+describe('parseSteps', () => {
+  test('accepts an array or { steps }', () => {
+    const steps = [{ action: 'click', selector: '#a' }];
+    expect(parseSteps(steps)).toEqual(steps);
+    expect(parseSteps({ steps })).toEqual(steps);
+  });
+
+  test('rejects non-array scripts', () => {
+    expect(() => parseSteps({ click: '#a' })).toThrow('array of steps');
+  });
+
+  test('names the bad step field', () => {
+    expect(() => parseSteps([{ action: 'click', selector: '#a' }, { action: 'type', selector: '#b' }]))
+      .toThrow('steps[1].text: expected string');
+    expect(() => parseSteps([{ action: 'hover', selector: '#a' }])).toThrow('steps[0].action: expected one of');
+    expect(() => parseSteps([{ action: 'click', selector: '#a', text: 'x' }])).toThrow('steps[0].text: unknown key for click');
+    expect(() => parseSteps([{ action: 'waitFor', selector: '#a', timeout: -1 }])).toThrow('steps[0].timeout');
+  });
+});
+
+// ─── describeStep ─────────────────────────────────────────────────────────────
+
+describe('describeStep', () => {
+  test('includes number, action and target', () => {
+    expect(describeStep(click('#open'), 0)).toBe('step 1 (click #open)');
+    expect(describeStep(press('Escape', { name: 'close dialog' }), 2)).toBe('step 3 "close dialog" (press Escape)');
+    expect(describeStep(screenshot('after'), 4)).toBe('step 5 (screenshot after)');
+  });
+
+  test('shortens long expressions', () => {
+    const label = describeStep(evaluate('x'.repeat(60)), 0);
+    expect(label).toBe(`step 1 (evaluate ${'x'.repeat(40)}...)`);
+  });
+});